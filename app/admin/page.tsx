@@ -0,0 +1,231 @@
+"use client";
+
+import * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { RiLoader4Line, RiRefreshLine } from "@remixicon/react";
+import {
+  parseErrorResponse,
+  type BudgetPeriodStatus,
+  type BudgetResponse,
+  type ErrorResponse,
+} from "@/lib/schema";
+
+// --- Spend against the daily and monthly budgets, for internal API keys ---
+// The key is kept in sessionStorage, so it's forgotten with the tab.
+
+const KEY_STORAGE_KEY = "admin-api-key";
+
+const PERIOD_TITLES = { daily: "Today", monthly: "This month" };
+
+const STATE_BADGES = {
+  ok: { label: "OK", variant: "secondary" },
+  soft_cap: { label: "Soft cap reached", variant: "outline" },
+  exhausted: { label: "Exhausted", variant: "destructive" },
+} as const;
+
+const usd = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+function BudgetPeriodCard({ status }: { status: BudgetPeriodStatus }) {
+  const { spent, soft, hard, remaining, state, byStage } = status;
+  const cap = hard ?? soft;
+  const percent = (amount: number) => (cap ? Math.min(100, (amount / cap) * 100) : 0);
+  const badge = STATE_BADGES[state];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{PERIOD_TITLES[status.period]}</CardTitle>
+        <CardDescription>
+          {status.key} (UTC) · resets {new Date(status.resetsAt).toLocaleString()}
+        </CardDescription>
+        <CardAction>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-baseline justify-between">
+          <p className="text-2xl font-semibold tabular-nums">{usd.format(spent)}</p>
+          <p className="text-muted-foreground text-sm">
+            {cap === undefined ? "No cap" : `${usd.format(remaining ?? 0)} left of ${usd.format(cap)}`}
+          </p>
+        </div>
+        {cap !== undefined && (
+          <div className="bg-muted relative h-2 overflow-hidden rounded-full">
+            <div
+              className={`h-full rounded-full ${state === "exhausted" ? "bg-destructive" : state === "soft_cap" ? "bg-yellow-500" : "bg-primary"}`}
+              style={{ width: `${percent(spent)}%` }}
+            />
+            {soft !== undefined && hard !== undefined && (
+              <div
+                className="bg-foreground/50 absolute inset-y-0 w-px"
+                style={{ left: `${percent(soft)}%` }}
+                title={`Soft cap: ${usd.format(soft)}`}
+              />
+            )}
+          </div>
+        )}
+        <p className="text-muted-foreground text-xs">
+          LLM {usd.format(byStage.llm)} · TTS {usd.format(byStage.tts)}
+          {soft !== undefined && ` · anonymous requests stop at ${usd.format(soft)}`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminPage() {
+  const [apiKey, setApiKey] = React.useState("");
+  const [status, setStatus] = React.useState<BudgetResponse | null>(null);
+  const [error, setError] = React.useState<ErrorResponse | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const load = React.useCallback(async (key: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/budget", {
+        headers: { Authorization: `Bearer ${key}` },
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(parseErrorResponse(data));
+        setStatus(null);
+        // A key that was turned down once will be again
+        if (res.status === 401 || res.status === 403) sessionStorage.removeItem(KEY_STORAGE_KEY);
+        return;
+      }
+      sessionStorage.setItem(KEY_STORAGE_KEY, key);
+      setStatus(data as BudgetResponse);
+    } catch {
+      setError({ error: "Network error — check your connection and try again.", code: "NETWORK_ERROR" });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    const saved = sessionStorage.getItem(KEY_STORAGE_KEY);
+    if (saved) {
+      setApiKey(saved);
+      load(saved);
+    }
+  }, [load]);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (apiKey.trim()) load(apiKey.trim());
+  }
+
+  function handleSignOut() {
+    sessionStorage.removeItem(KEY_STORAGE_KEY);
+    setApiKey("");
+    setStatus(null);
+  }
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="space-y-1 text-center">
+          <h1 className="text-2xl font-semibold tracking-tight">Budget</h1>
+          <p className="text-muted-foreground text-sm">
+            Estimated LLM and TTS spend against the daily and monthly caps
+          </p>
+        </div>
+
+        {!status && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign in</CardTitle>
+              <CardDescription>Needs an API key on the internal tier</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit}>
+                <FieldGroup>
+                  <Field>
+                    <FieldLabel htmlFor="api-key">API key</FieldLabel>
+                    <Input
+                      id="api-key"
+                      type="password"
+                      autoComplete="off"
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                    />
+                  </Field>
+                  <Button type="submit" disabled={loading || !apiKey.trim()}>
+                    {loading && <RiLoader4Line className="animate-spin" />}
+                    Show budget
+                  </Button>
+                </FieldGroup>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-destructive/50">
+            <CardContent className="space-y-1">
+              <p className="text-destructive text-sm font-medium">{error.error}</p>
+              {error.requestId && (
+                <p className="text-muted-foreground font-mono text-xs">Request ID: {error.requestId}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {status && (
+          <>
+            {status.periods.map((period) => (
+              <BudgetPeriodCard key={period.period} status={period} />
+            ))}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Prices</CardTitle>
+                <CardDescription>Set with COST_PRICES; unlisted providers cost nothing</CardDescription>
+              </CardHeader>
+              <CardContent className="text-muted-foreground space-y-1 text-sm">
+                {Object.entries(status.prices.llm).map(([provider, price]) => (
+                  <p key={`llm-${provider}`}>
+                    {provider}: {usd.format(price.inputPerMillionTokens)} / {usd.format(price.outputPerMillionTokens)} per
+                    million input / output tokens
+                  </p>
+                ))}
+                {Object.entries(status.prices.tts).map(([provider, price]) => (
+                  <p key={`tts-${provider}`}>
+                    {provider}: {usd.format(price.perTenThousandCharacters)} per 10,000 characters
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => load(apiKey)} disabled={loading}>
+                <RiRefreshLine className={loading ? "animate-spin" : undefined} />
+                Refresh
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getBudgetStatus } from "@/lib/budget";
+import type { BudgetResponse } from "@/lib/schema";
+import { authorize, errorResponse, withRequestContext } from "@/lib/api";
+
+// --- Spend so far against the daily and monthly budgets, for /admin ---
+// Only for API keys on the internal tier.
+
+export const GET = withRequestContext("/api/admin/budget", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+  if (client.tier !== "internal") {
+    return errorResponse(403, "That needs an internal API key, macha.", "FORBIDDEN");
+  }
+
+  return NextResponse.json<BudgetResponse>(await getBudgetStatus(), {
+    headers: { "Cache-Control": "no-store" },
+  });
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { readBatchRequest, runBatch } from "@/lib/batch";
+import { authorize, withRequestContext } from "@/lib/api";
+
+// --- Voice up to MAX_BATCH_ROWS lines at once, as a ZIP of clips ---
+// Rows are charged against the rate limit one by one, like /api/generate,
+// so rows past the client's quota come back as RATE_LIMITED in the manifest.
+
+export const POST = withRequestContext("/api/batch", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const rows = await readBatchRequest(request);
+  if (rows instanceof NextResponse) return rows;
+
+  const { zip, manifest } = await runBatch(client, rows);
+  return new Response(new Uint8Array(zip), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Length": String(zip.byteLength),
+      "Content-Disposition": 'attachment; filename="batch.zip"',
+      "X-Batch-Succeeded": String(manifest.succeeded),
+      "X-Batch-Failed": String(manifest.failed),
+    },
+  });
+});
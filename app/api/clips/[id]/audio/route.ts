@@ -0,0 +1,24 @@
+import { getClipStore } from "@/lib/clips";
+import { AUDIO_FORMATS, audioMimeType } from "@/lib/audio-formats";
+import { clipNotFoundResponse, withRequestContext } from "@/lib/api";
+
+// --- A shared clip's audio, as raw bytes for players and `<audio src>` ---
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestContext("/api/clips/[id]/audio", async (_request, { params }: Params) => {
+  const { id } = await params;
+  const clip = await getClipStore()?.getAudio(id);
+  if (!clip) return clipNotFoundResponse();
+
+  const { record, audio } = clip;
+  return new Response(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": audioMimeType(record.format, record.speech.sampleRate),
+      "Content-Length": String(audio.byteLength),
+      "Content-Disposition": `inline; filename="${record.dialect}-english.${AUDIO_FORMATS[record.format].extension}"`,
+      // Short, so a deleted clip doesn't keep playing from caches for long
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getClipStore, toClipResponse } from "@/lib/clips";
+import type { ClipResponse } from "@/lib/schema";
+import { clipNotFoundResponse, errorResponse, withRequestContext } from "@/lib/api";
+
+// --- A shared clip's details, and deleting it with its delete token ---
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestContext("/api/clips/[id]", async (_request, { params }: Params) => {
+  const { id } = await params;
+  const record = await getClipStore()?.get(id);
+  if (!record) return clipNotFoundResponse();
+
+  return NextResponse.json<ClipResponse>(toClipResponse(record));
+});
+
+export const DELETE = withRequestContext("/api/clips/[id]", async (request, { params }: Params) => {
+  const { id } = await params;
+  const store = getClipStore();
+  if (!store) return clipNotFoundResponse();
+
+  const result = await store.delete(id, request.headers.get("x-delete-token") ?? "");
+  switch (result) {
+    case "not_found":
+      return clipNotFoundResponse();
+    case "forbidden":
+      return errorResponse(403, "That's not this clip's delete token, macha.", "INVALID_DELETE_TOKEN");
+    case "deleted":
+      return new Response(null, { status: 204 });
+  }
+});
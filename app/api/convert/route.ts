@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { wantsEventStream } from "@/lib/sse";
+import { convertText, streamConvertText } from "@/lib/convert";
+import { moderateText } from "@/lib/moderation";
+import type { ConvertResponse } from "@/lib/schema";
+import {
+  authorize,
+  contentBlockedBody,
+  contentBlockedResponse,
+  enforceRateLimit,
+  readTextRequest,
+  failureResponse,
+  sseResponse,
+  toConvertResponse,
+  withRequestContext,
+} from "@/lib/api";
+import { log } from "@/lib/logger";
+
+// --- Text → dialect conversion only, no TTS quota used ---
+// Without an LLM key this still works: conversions fall back to the rules.
+
+export const POST = withRequestContext("/api/convert", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const body = await readTextRequest(request);
+  if (body instanceof NextResponse) return body;
+  const { text, dialect, intensity, conversion } = body;
+  const { familyFriendly } = conversion;
+
+  // Checked before the rate limit, so rejected input doesn't use up quota
+  const blocked = contentBlockedResponse(
+    await moderateText(text, { stage: "input", familyFriendly })
+  );
+  if (blocked) return blocked;
+
+  const limited = await enforceRateLimit(client);
+  if (limited) return limited;
+
+  if (wantsEventStream(request)) {
+    return sseResponse(async (send, signal) => {
+      const converted = await streamConvertText(text, dialect, intensity, conversion, send, signal);
+
+      const verdict = await moderateText(converted.text, { stage: "output", familyFriendly });
+      if (!verdict.allowed) {
+        send("reset", {});
+        send("error", contentBlockedBody(verdict));
+        return;
+      }
+
+      send("stage", { stage: "done" });
+      send("done", toConvertResponse(body, converted));
+    });
+  }
+
+  try {
+    const converted = await convertText(text, dialect, intensity, conversion);
+
+    const outputBlocked = contentBlockedResponse(
+      await moderateText(converted.text, { stage: "output", familyFriendly })
+    );
+    if (outputBlocked) return outputBlocked;
+
+    return NextResponse.json<ConvertResponse>(toConvertResponse(body, converted));
+  } catch (error) {
+    log.error("conversion_failed", { error });
+    return failureResponse(error);
+  }
+});
@@ -1,176 +1,185 @@
-import { generateText } from "ai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { SarvamAIClient } from "sarvamai";
 import { NextResponse } from "next/server";
-
-// --- Rate limiting (in-memory, resets on redeploy) ---
-const MAX_INPUT_LENGTH = 500;
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 10; // 5 requests per IP per minute
-const DAILY_GLOBAL_CAP = 2000; // hard stop after 2000 requests/day
-
-const ipRequestMap = new Map<string, { count: number; resetAt: number }>();
-let dailyCount = 0;
-let dailyResetAt = Date.now() + 24 * 60 * 60 * 1000;
-
-function getClientIp(request: Request): string {
-  return (
-    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-    request.headers.get("x-real-ip") ||
-    "unknown"
+import { wantsEventStream } from "@/lib/sse";
+import { base64ToBytes, bytesToBase64 } from "@/lib/wav";
+import { streamConvertText } from "@/lib/convert";
+import { speakText } from "@/lib/speak";
+import { admitGeneration, convertAndSpeak, saveGenerationToCache } from "@/lib/generate";
+import { transcodeWav } from "@/lib/transcode";
+import { listDialects } from "@/lib/dialects";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import { moderateText } from "@/lib/moderation";
+import { saveClip } from "@/lib/clips";
+import {
+  MAX_INPUT_LENGTH,
+  type GenerateConfigResponse,
+  type ClipLink,
+  type ConvertResponse,
+  type GenerateAudioMetadata,
+  type GenerateStreamResult,
+} from "@/lib/schema";
+import type { RateLimitClient } from "@/lib/rate-limit";
+import {
+  authorize,
+  clipResponse,
+  contentBlockedBody,
+  readTextQuery,
+  readTextRequest,
+  type TextRequest,
+  failureBody,
+  sseResponse,
+  toConvertResponse,
+  wantsBinaryAudio,
+  withRequestContext,
+} from "@/lib/api";
+import { log } from "@/lib/logger";
+
+// --- Convert + speak in one call: /api/convert followed by /api/speak ---
+
+// Persists the clip for its permalink, in the format it was requested in
+function shareClip(
+  request: Request,
+  { speaker, speech, format }: TextRequest,
+  converted: ConvertResponse,
+  audio: Uint8Array,
+  wav: Uint8Array
+): Promise<ClipLink | undefined> {
+  return saveClip(
+    { ...converted, speaker, speech, format },
+    audio,
+    wav,
+    new URL(request.url).origin
   );
 }
 
-function checkRateLimit(ip: string): { allowed: boolean; retryAfter?: number } {
-  const now = Date.now();
-
-  // Reset daily counter
-  if (now > dailyResetAt) {
-    dailyCount = 0;
-    dailyResetAt = now + 24 * 60 * 60 * 1000;
-  }
-
-  if (dailyCount >= DAILY_GLOBAL_CAP) {
-    return { allowed: false, retryAfter: Math.ceil((dailyResetAt - now) / 1000) };
-  }
-
-  // Per-IP rate limit
-  const entry = ipRequestMap.get(ip);
-  if (!entry || now > entry.resetAt) {
-    ipRequestMap.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS });
-    dailyCount++;
-    return { allowed: true };
-  }
-
-  if (entry.count >= MAX_REQUESTS_PER_WINDOW) {
-    return { allowed: false, retryAfter: Math.ceil((entry.resetAt - now) / 1000) };
-  }
-
-  entry.count++;
-  dailyCount++;
-  return { allowed: true };
+// Sent as the SSE `done` event. With a clip the page fetches the audio from
+// its `audioUrl`, so only generations that weren't saved carry it inline.
+function streamResult(result: GenerateAudioMetadata, audio: Uint8Array): GenerateStreamResult {
+  return result.clip ? result : { ...result, audioBase64: bytesToBase64(audio) };
 }
 
-// Clean up stale IP entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, entry] of ipRequestMap) {
-    if (now > entry.resetAt) ipRequestMap.delete(ip);
-  }
-}, 5 * 60 * 1000);
-
-export async function POST(request: Request) {
-  const ip = getClientIp(request);
-
-  // Rate limit check
-  const { allowed, retryAfter } = checkRateLimit(ip);
-  if (!allowed) {
-    const isDaily = retryAfter && retryAfter > RATE_LIMIT_WINDOW_MS / 1000;
-    return NextResponse.json(
-      {
-        error: isDaily
-          ? "Daily limit reached — this playground has hit its quota for today. Come back tomorrow!"
-          : `Slow down, macha! Too many requests. Try again in ${retryAfter}s.`,
-        code: "RATE_LIMITED",
-        retryAfter,
-      },
-      { status: 429, headers: { "Retry-After": String(retryAfter) } }
-    );
-  }
-
-  const { text, speaker } = await request.json();
-
-  if (!text || typeof text !== "string" || text.trim().length === 0) {
-    return NextResponse.json({ error: "Text is required" }, { status: 400 });
-  }
-
-  if (text.length > MAX_INPUT_LENGTH) {
-    return NextResponse.json(
-      {
-        error: `Too long, bro! Keep it under ${MAX_INPUT_LENGTH} characters.`,
-        code: "INPUT_TOO_LONG",
-      },
-      { status: 400 }
-    );
+// Advertises input limits, dialects and voices so the page doesn't hard-code them.
+// With a `text` query parameter it generates instead, returning the audio
+// itself so the URL works as an `<audio src>`.
+export const GET = withRequestContext("/api/generate", async (request) => {
+  if (new URL(request.url).searchParams.has("text")) {
+    const client = authorize(request);
+    if (client instanceof NextResponse) return client;
+
+    const body = readTextQuery(request);
+    if (body instanceof NextResponse) return body;
+    // Direct links are for playback, so they don't pile up permalinks
+    return generate(request, client, body, { binary: true, permalink: false });
   }
 
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return NextResponse.json(
-      { error: "ANTHROPIC_API_KEY not configured" },
-      { status: 500 }
-    );
+  return NextResponse.json<GenerateConfigResponse>({
+    maxInputLength: MAX_INPUT_LENGTH,
+    dialects: listDialects().map(
+      ({ id, name, defaultSpeaker, pace, targetLanguageCode }) => ({
+        id,
+        name,
+        defaultSpeaker,
+        pace,
+        languageCode: targetLanguageCode,
+      })
+    ),
+    voices: getSpeechSynthesizer().voices,
+  });
+});
+
+export const POST = withRequestContext("/api/generate", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const body = await readTextRequest(request);
+  if (body instanceof NextResponse) return body;
+  return generate(request, client, body, {
+    binary: wantsBinaryAudio(request),
+    permalink: true,
+  });
+});
+
+async function generate(
+  request: Request,
+  client: RateLimitClient,
+  body: TextRequest,
+  { binary, permalink }: { binary: boolean; permalink: boolean }
+): Promise<Response> {
+  const { text, speaker, dialect, intensity, conversion, speech, format } = body;
+  const { familyFriendly } = conversion;
+  // Raw audio can't be streamed alongside tokens, so it wins over SSE
+  const stream = !binary && wantsEventStream(request);
+
+  const admitted = await admitGeneration(client, body);
+  if (admitted instanceof NextResponse) return admitted;
+  const { cacheKey: key, cached } = admitted;
+
+  if (cached) {
+    const converted = toConvertResponse(body, { text: cached.bangaloreText, mode: conversion.mode });
+    const audio = transcodeWav(cached.audio, format);
+    const result: GenerateAudioMetadata = {
+      ...converted,
+      speech,
+      format,
+      cached: true,
+      clip: permalink ? await shareClip(request, body, converted, audio, cached.audio) : undefined,
+    };
+
+    if (stream) {
+      return sseResponse(async (send) => {
+        send("token", { text: result.bangaloreText });
+        send("stage", { stage: "done" });
+        send("done", streamResult(result, audio));
+      });
+    }
+    return clipResponse(result, audio, { binary });
   }
 
-  if (!process.env.SARVAM_API_KEY) {
-    return NextResponse.json(
-      { error: "SARVAM_API_KEY not configured" },
-      { status: 500 }
-    );
-  }
-
-  try {
-    // Step 1: Use Claude Haiku to convert text to Bangalore English
-    const { text: bangaloreText } = await generateText({
-      model: anthropic("claude-haiku-4-5-20251001"),
-      maxOutputTokens: 300,
-      system: `You are a Bangalore English dialect converter. Convert the given text into how a typical Bangalorean would say it in English. Keep it to 2 small paragraphs maximum (about 3-4 lines total). Only output the converted text, nothing else. Do not add quotes around the output.
-
-Key rules of Bangalore English:
-- Don't always start with aiyo macha, or aiyo. Switch it up a bit.
-- Never end a sentence with just a verb — try to add "off": "get off", "come off", "put off", "fell off", "drowned off", "hit off"
-- Use "bro" and "macha". Also use "da" freely.
-- Replace "simply" with "chumma"
-- You're never fighting — you're "belting" and "popping": "I'll belt you, pop you"
-- Use "put one scene", "put one call" for doing things
-- Use "means" as a connector mid-sentence: "when she breaks up with you means who you will come back to da?"
-- Use "only" at the end for emphasis: "Full psych only", "Gone scenes only"
-- Use Kannada words: "Aiyo", "Tumba", Machha (Dude, friend, buddy), Chill Maadi (Chill out)
-- Use "Gone scenes only" for disasters, "Full psych only" for hype
-
-
-Example conversions for reference:
-
-Input: "Our friend Aryan has forgotten us after getting a girlfriend"
-Output: Hey Aryan, what da macha? You're putting one scene with your girlfriend means you've forgotten your day ones. chumma, when your friends call you means no time you have, but with your girlfriend you're putting one call till three a.m. in the morning. Hey macha when she breaks up with you means who you will come back to da? you will come back to these friends only so don't put 1 psych and talk to your friends.
-
-Input: "A massive earthquake has hit Bangalore"
-Output: Machaa! one psych earthquake hit off Bangalore. Gone scenes only. Full building and all fell off, bro.
-
-Input: "A terrible flood has caused a lot of problems"
-Output: Gone, machaa, gone. House, dog, cow, people, everything drowned off. Full heart breaking scenes only.
-
-Input: "India has defeated Pakistan by 6 wickets"
-Output: Da India put off one heavy scene bro. They belted Pakistan and won the World Cup bro. Full psych only.`,
-      prompt: text,
+  // Streams stage changes and LLM tokens as SSE, then the final audio payload
+  if (stream) {
+    return sseResponse(async (send, signal) => {
+      const converted = await streamConvertText(text, dialect, intensity, conversion, send, signal);
+      const partial = toConvertResponse(body, converted);
+
+      // The client has seen the tokens already, so tell it to drop them
+      const verdict = await moderateText(converted.text, { stage: "output", familyFriendly });
+      if (!verdict.allowed) {
+        send("reset", {});
+        send("error", contentBlockedBody(verdict));
+        return;
+      }
+
+      send("stage", { stage: "synthesizing" });
+      let wav: Uint8Array;
+      try {
+        wav = base64ToBytes(await speakText(converted.text, speaker, speech, signal));
+      } catch (error) {
+        // Left to sseResponse, which knows the client has gone
+        signal.throwIfAborted();
+        log.error("speech_failed", { error });
+        send("error", failureBody(error, partial).body);
+        return;
+      }
+      await saveGenerationToCache(key, converted, wav, conversion.mode);
+
+      const audio = transcodeWav(wav, format);
+      const result: GenerateAudioMetadata = {
+        ...partial,
+        speech,
+        format,
+        cached: false,
+        clip: permalink ? await shareClip(request, body, partial, audio, wav) : undefined,
+      };
+
+      send("stage", { stage: "done" });
+      send("done", streamResult(result, audio));
     });
+  }
 
-    // Step 2: Send to Bulbul v3 TTS API via Sarvam SDK
-    const sarvam = new SarvamAIClient({
-      apiSubscriptionKey: process.env.SARVAM_API_KEY,
-    });
+  const generated = await convertAndSpeak(body, key);
+  if (generated instanceof NextResponse) return generated;
 
-    const ttsData = await sarvam.textToSpeech.convert({
-      text: bangaloreText,
-      target_language_code: "kn-IN",
-      model: "bulbul:v3",
-      speaker: (speaker as "sunny") || "sunny",
-      pace: 1.6,
-      speech_sample_rate: 48000,
-    });
-
-    return NextResponse.json({
-      originalText: text,
-      bangaloreText,
-      audioBase64: ttsData.audios[0],
-    });
-  } catch (error) {
-    console.error("Generation error:", error);
-    return NextResponse.json(
-      {
-        error: "Aiyo, something broke! Try again in a bit.",
-        code: "SERVER_ERROR",
-      },
-      { status: 500 }
-    );
-  }
+  const { converted, wav } = generated;
+  const audio = transcodeWav(wav, format);
+  const clip = permalink ? await shareClip(request, body, converted, audio, wav) : undefined;
+  return clipResponse({ ...converted, speech, format, cached: false, clip }, audio, { binary });
 }
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getDialectConverter } from "@/lib/converters";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import { FALLBACK_ENABLED } from "@/lib/convert";
+import type { HealthResponse, ProviderHealth } from "@/lib/schema";
+import { withRequestContext } from "@/lib/api";
+
+// --- For load balancers and uptime checks: is the server up, and can it talk? ---
+// Only checks that provider keys are configured, not that they work, so it's
+// cheap enough to poll.
+
+function providerHealth(provider: string, requiredEnv: string[], model?: string): ProviderHealth {
+  const missing = requiredEnv.filter((name) => !process.env[name]);
+  return { provider, model, configured: missing.length === 0, missing };
+}
+
+export const GET = withRequestContext("/api/health", async () => {
+  const synthesizer = getSpeechSynthesizer();
+  const converter = getDialectConverter();
+  const tts = providerHealth(synthesizer.provider, synthesizer.requiredEnv);
+  const llm = {
+    ...providerHealth(converter.settings.provider, converter.requiredEnv, converter.settings.model),
+    fallback: FALLBACK_ENABLED,
+  };
+
+  // Without an LLM the rule engine can still do conversions, unless it's off
+  const status: HealthResponse["status"] =
+    !tts.configured || (!llm.configured && !llm.fallback)
+      ? "unavailable"
+      : llm.configured
+        ? "ok"
+        : "degraded";
+
+  return NextResponse.json<HealthResponse>(
+    { status, uptimeSeconds: Math.round(process.uptime()), providers: { tts, llm } },
+    { status: status === "unavailable" ? 503 : 200, headers: { "Cache-Control": "no-store" } }
+  );
+});
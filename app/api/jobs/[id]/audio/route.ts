@@ -0,0 +1,23 @@
+import { getJobStore } from "@/lib/jobs";
+import { AUDIO_FORMATS, audioMimeType } from "@/lib/audio-formats";
+import { jobNotFoundResponse, withRequestContext } from "@/lib/api";
+
+// --- A finished job's audio, as raw bytes ---
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestContext("/api/jobs/[id]/audio", async (_request, { params }: Params) => {
+  const { id } = await params;
+  const job = await getJobStore().getAudio(id);
+  if (!job) return jobNotFoundResponse();
+
+  const { result, audio } = job;
+  const { dialect, format, speech } = result;
+  return new Response(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": audioMimeType(format, speech.sampleRate),
+      "Content-Length": String(audio.byteLength),
+      "Content-Disposition": `inline; filename="${dialect}-english.${AUDIO_FORMATS[format].extension}"`,
+    },
+  });
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getJobStore, toJobResponse } from "@/lib/jobs";
+import type { JobResponse } from "@/lib/schema";
+import { jobNotFoundResponse, withRequestContext } from "@/lib/api";
+
+// --- A job's status, with its result once it's done ---
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withRequestContext("/api/jobs/[id]", async (_request, { params }: Params) => {
+  const { id } = await params;
+  const record = await getJobStore().get(id);
+  if (!record) return jobNotFoundResponse();
+
+  return NextResponse.json<JobResponse>(toJobResponse(record), {
+    headers: { "Cache-Control": "no-store" },
+  });
+});
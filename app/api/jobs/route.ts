@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { admitGeneration } from "@/lib/generate";
+import { enqueueJob, getJobStore, isPublicCallbackUrl, jobStatusUrl } from "@/lib/jobs";
+import { currentRequestId } from "@/lib/logger";
+import type { RateLimitClient } from "@/lib/rate-limit";
+import type { JobCreatedResponse } from "@/lib/schema";
+import {
+  authorize,
+  errorResponse,
+  parseTextRequest,
+  readJsonBody,
+  requireEnv,
+  validationErrorResponse,
+  withRequestContext,
+} from "@/lib/api";
+
+// --- Queue a generation and poll for it, for texts too long to wait on ---
+// Takes an /api/generate body plus an optional `callbackUrl`. Moderation and
+// the rate limit apply up front, so a job that's accepted only fails upstream.
+
+// Callbacks make this server send requests on the client's behalf, so they
+// need an API key and must point at a public host
+async function readCallbackUrl(
+  value: unknown,
+  client: RateLimitClient
+): Promise<string | undefined | NextResponse> {
+  if (value === undefined) return undefined;
+  if (client.tier === "anonymous") {
+    return errorResponse(403, "Callbacks need an API key, macha.", "FORBIDDEN");
+  }
+
+  const url = typeof value === "string" && URL.canParse(value) ? new URL(value) : null;
+  if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+    return validationErrorResponse([
+      { field: "callbackUrl", code: "INVALID_PARAMETER", message: "callbackUrl must be an http(s) URL" },
+    ]);
+  }
+  if (!(await isPublicCallbackUrl(url.href))) {
+    return validationErrorResponse([
+      {
+        field: "callbackUrl",
+        code: "INVALID_PARAMETER",
+        message: "callbackUrl must resolve to a public address",
+      },
+    ]);
+  }
+  // Callbacks are always signed, so there must be something to sign them with
+  return requireEnv("JOB_CALLBACK_SECRET") ?? url.href;
+}
+
+export const POST = withRequestContext("/api/jobs", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const json = await readJsonBody(request);
+  if (json instanceof NextResponse) return json;
+
+  const parsed = parseTextRequest(json);
+  if (!parsed.ok) return validationErrorResponse(parsed.errors);
+
+  const callbackUrl = await readCallbackUrl((json as { callbackUrl?: unknown }).callbackUrl, client);
+  if (callbackUrl instanceof NextResponse) return callbackUrl;
+
+  const admitted = await admitGeneration(client, parsed.value);
+  if (admitted instanceof NextResponse) return admitted;
+
+  const origin = new URL(request.url).origin;
+  const job = await getJobStore().create({
+    request: json,
+    callbackUrl,
+    origin,
+    requestId: currentRequestId(),
+  });
+  enqueueJob(job);
+
+  const statusUrl = jobStatusUrl(job.id, origin);
+  return NextResponse.json<JobCreatedResponse>(
+    { id: job.id, status: job.status, statusUrl },
+    { status: 202, headers: { Location: statusUrl } }
+  );
+});
@@ -0,0 +1,31 @@
+import { timingSafeEqual } from "crypto";
+import { renderMetrics } from "@/lib/metrics";
+import { errorResponse, withRequestContext } from "@/lib/api";
+
+// --- Prometheus scrape endpoint ---
+// Needs `Authorization: Bearer <METRICS_TOKEN>`. The numbers include spend and
+// traffic, so in production it stays shut until a token is set; in
+// development it's open when there isn't one.
+
+function hasToken(request: Request, token: string): boolean {
+  const sent = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${token}`);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+export const GET = withRequestContext("/api/metrics", async (request) => {
+  const token = process.env.METRICS_TOKEN;
+  if (!token && process.env.NODE_ENV === "production") {
+    return errorResponse(500, "METRICS_TOKEN not configured", "SERVER_MISCONFIGURED");
+  }
+  if (token && !hasToken(request, token)) {
+    return errorResponse(401, "Wrong metrics token, macha.", "INVALID_API_KEY");
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+});
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { base64ToBytes } from "@/lib/wav";
+import { cacheKey, getAudioCache, saveToAudioCache } from "@/lib/audio-cache";
+import { speechSettings, speakText } from "@/lib/speak";
+import { transcodeWav } from "@/lib/transcode";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import { moderateText } from "@/lib/moderation";
+import type { RateLimitClient } from "@/lib/rate-limit";
+import {
+  authorize,
+  clipResponse,
+  contentBlockedResponse,
+  enforceRateLimit,
+  readTextQuery,
+  readTextRequest,
+  requireEnv,
+  type TextRequest,
+  failureResponse,
+  wantsBinaryAudio,
+  withRequestContext,
+} from "@/lib/api";
+import { log } from "@/lib/logger";
+
+// --- Voice the given text as-is with Bulbul, no LLM rewrite ---
+
+// Query-string version of POST that returns the audio itself, for `<audio src>`
+export const GET = withRequestContext("/api/speak", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const body = readTextQuery(request);
+  if (body instanceof NextResponse) return body;
+  return speak(client, body, { binary: true });
+});
+
+export const POST = withRequestContext("/api/speak", async (request) => {
+  const client = authorize(request);
+  if (client instanceof NextResponse) return client;
+
+  const body = await readTextRequest(request);
+  if (body instanceof NextResponse) return body;
+  return speak(client, body, { binary: wantsBinaryAudio(request) });
+});
+
+async function speak(
+  client: RateLimitClient,
+  { text, speaker, speech, conversion, format }: TextRequest,
+  { binary }: { binary: boolean }
+): Promise<Response> {
+  // The text is voiced as-is, so it only gets the input check
+  const blocked = contentBlockedResponse(
+    await moderateText(text, { stage: "input", familyFriendly: conversion.familyFriendly })
+  );
+  if (blocked) return blocked;
+
+  // Cache hits cost nothing upstream, so they skip the daily cap. Clips are
+  // cached as WAV, so the key leaves out the output format
+  const key = cacheKey({ kind: "speak", text, speaker, speech: speechSettings(speech) });
+  const cached = await getAudioCache()?.get(key);
+
+  // Checked before the rate limit, so a misconfigured server doesn't charge
+  // the caller for an error
+  if (!cached) {
+    const missingKey = requireEnv(...getSpeechSynthesizer().requiredEnv);
+    if (missingKey) return missingKey;
+  }
+
+  const limited = await enforceRateLimit(client, { chargeDaily: !cached });
+  if (limited) return limited;
+
+  if (cached) {
+    return clipResponse(
+      { text, speech, format, cached: true },
+      transcodeWav(cached.audio, format),
+      { binary }
+    );
+  }
+
+  try {
+    const wav = base64ToBytes(await speakText(text, speaker, speech));
+    await saveToAudioCache(key, { bangaloreText: text, audio: wav });
+
+    return clipResponse(
+      { text, speech, format, cached: false },
+      transcodeWav(wav, format),
+      { binary }
+    );
+  } catch (error) {
+    log.error("speech_failed", { error });
+    return failureResponse(error);
+  }
+}
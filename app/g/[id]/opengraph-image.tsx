@@ -0,0 +1,80 @@
+import { ImageResponse } from "next/og";
+import { getClipStore } from "@/lib/clips";
+import { getDialect } from "@/lib/dialects";
+import { PEAK_HEIGHT_RATIO } from "@/lib/waveform";
+
+// --- Link preview card for a shared clip: its text over its waveform ---
+
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+export const alt = "A Bangalore English TTS clip";
+
+const MAX_TEXT_LENGTH = 180;
+const WAVEFORM_HEIGHT = 150;
+// Satori doesn't parse oklch(), so these are the player's colours in hex
+const PLAYED_PEAK_HEX = "#c022d3";
+const MUTED_HEX = "#f5f5f5";
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const record = await getClipStore()?.get(id);
+
+  const dialectName = record ? (getDialect(record.dialect)?.name ?? record.dialect) : "Bangalore English";
+  const text = record ? truncate(record.bangaloreText, MAX_TEXT_LENGTH) : "This clip has expired.";
+  const peaks = record?.peaks ?? [];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          width: "100%",
+          height: "100%",
+          padding: 72,
+          background: "white",
+          color: "#0a0a0a",
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column", gap: 24 }}>
+          <div style={{ fontSize: 30, color: "#737373" }}>{dialectName}</div>
+          <div style={{ fontSize: 52, lineHeight: 1.25 }}>{`“${text}”`}</div>
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: 20 }}>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              height: WAVEFORM_HEIGHT,
+              padding: "0 24px",
+              borderRadius: 16,
+              background: MUTED_HEX,
+            }}
+          >
+            {peaks.map((peak, i) => (
+              <div
+                key={i}
+                style={{
+                  width: 6,
+                  height: Math.max(4, peak * WAVEFORM_HEIGHT * PEAK_HEIGHT_RATIO),
+                  borderRadius: 3,
+                  background: PLAYED_PEAK_HEX,
+                }}
+              />
+            ))}
+          </div>
+          <div style={{ display: "flex", fontSize: 26, color: "#737373" }}>
+            {record ? `Bangalore English TTS · voiced by ${record.speaker}` : "Bangalore English TTS"}
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
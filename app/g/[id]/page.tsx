@@ -0,0 +1,121 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ClipPlayer } from "@/components/clip-player";
+import { clipPath, getClipStore, toClipResponse } from "@/lib/clips";
+import { getDialect } from "@/lib/dialects";
+import { audioMimeType } from "@/lib/audio-formats";
+
+// --- Permalink page for a shared clip ---
+
+type Params = { params: Promise<{ id: string }> };
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Link previews need absolute URLs, and the host is only known per request
+async function requestOrigin(): Promise<string> {
+  const requestHeaders = await headers();
+  const host =
+    requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host") ?? "localhost:3000";
+  const protocol =
+    requestHeaders.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https");
+  return `${protocol}://${host}`;
+}
+
+// Per-clip OG/Twitter tags; the image comes from ./opengraph-image.tsx
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { id } = await params;
+  const record = await getClipStore()?.get(id);
+  if (!record) return { title: "Clip not found" };
+
+  const clip = toClipResponse(record);
+  const dialectName = getDialect(clip.dialect)?.name ?? clip.dialect;
+  const title = `${dialectName}, voiced by ${clip.speaker}`;
+  const description =
+    clip.bangaloreText.length > MAX_DESCRIPTION_LENGTH
+      ? `${clip.bangaloreText.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+      : clip.bangaloreText;
+  const origin = await requestOrigin();
+  const audioUrl = new URL(clip.audioUrl, origin).href;
+
+  return {
+    metadataBase: new URL(origin),
+    title,
+    description,
+    openGraph: {
+      type: "website",
+      url: clipPath(clip.id),
+      title,
+      description,
+      audio: [
+        {
+          url: audioUrl,
+          secureUrl: audioUrl.startsWith("https:") ? audioUrl : undefined,
+          type: audioMimeType(clip.format, clip.speech.sampleRate),
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function ClipPage({ params }: Params) {
+  const { id } = await params;
+  const record = await getClipStore()?.get(id);
+  if (!record) notFound();
+
+  const clip = toClipResponse(record);
+  const dialectName = getDialect(clip.dialect)?.name ?? clip.dialect;
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{dialectName}</CardTitle>
+            <CardDescription>
+              Voiced by {clip.speaker} &middot; intensity {clip.intensity}
+            </CardDescription>
+            {clip.mode === "rules" && (
+              <CardAction>
+                <Badge variant="outline">Offline rules</Badge>
+              </CardAction>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <p className="text-muted-foreground text-xs">Original</p>
+              <p className="text-sm whitespace-pre-line">{clip.originalText}</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-muted-foreground text-xs">{dialectName}</p>
+              <p className="text-muted-foreground bg-muted rounded-lg p-3 text-sm whitespace-pre-line italic">
+                &ldquo;{clip.bangaloreText}&rdquo;
+              </p>
+            </div>
+            <ClipPlayer clip={clip} />
+          </CardContent>
+        </Card>
+
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/">Make your own</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
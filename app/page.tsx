@@ -1,9 +1,11 @@
 "use client";
 
 import * as React from "react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
+  CardAction,
   CardContent,
   CardDescription,
   CardHeader,
@@ -18,12 +20,57 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
+  RiArrowDownSLine,
+  RiArrowUpSLine,
+  RiCheckLine,
+  RiLinkM,
   RiLoader4Line,
   RiVoiceprintLine,
 } from "@remixicon/react";
 import { WaveformPlayer } from "@/components/waveform-player";
+import { HistoryPanel } from "@/components/history-panel";
+import { readSseEvents, type GenerateStage } from "@/lib/sse";
+import { rememberDeleteToken } from "@/lib/clip-tokens";
+import {
+  HISTORY_LIMIT,
+  addToHistory,
+  clearHistory,
+  deleteFromHistory,
+  listHistory,
+  type HistoryEntry,
+} from "@/lib/history";
+import {
+  DEFAULT_SAMPLE_RATE,
+  DEFAULT_TTS_MODEL,
+  LANGUAGE_CODES,
+  PACE_RANGES,
+  SAMPLE_RATES,
+} from "@/lib/tts-options";
+import {
+  AUDIO_FORMAT_IDS,
+  AUDIO_FORMATS,
+  DEFAULT_AUDIO_FORMAT,
+  downloadAudio,
+  type AudioFormat,
+} from "@/lib/audio-formats";
+import {
+  DEFAULT_INTENSITY,
+  MAX_INTENSITY,
+  MIN_INTENSITY,
+  parseErrorResponse,
+  type ClipLink,
+  type ConvertResponse,
+  type DialectSummary,
+  type ErrorResponse,
+  type GenerateConfigResponse,
+  type GenerateAudioMetadata,
+  type GenerateStreamEvent,
+  parseSpeakAudioHeaders,
+} from "@/lib/schema";
 
 import posthog from 'posthog-js'
 
@@ -40,20 +87,135 @@ const SPEAKERS = [
   "kavya",
 ] as const;
 
+// Fallback until the server advertises its limit
+const DEFAULT_MAX_INPUT_LENGTH = 500;
+
+// Fallback until the server advertises its dialects
+const DEFAULT_DIALECTS: DialectSummary[] = [
+  {
+    id: "bangalore",
+    name: "Bangalore English",
+    defaultSpeaker: "sunny",
+    pace: 1.6,
+    languageCode: "kn-IN",
+  },
+];
+
+const PACE_RANGE = PACE_RANGES[DEFAULT_TTS_MODEL];
+
+// A generated clip, with its audio already decoded from the response
+type Clip = GenerateAudioMetadata & { audio: ArrayBuffer };
+
+// What /api/speak needs to voice text that's already been converted
+interface VoiceSettings {
+  speaker: string;
+  pace: number;
+  sampleRate: number;
+  languageCode: string;
+  format: AudioFormat;
+}
+
+// Saved clips are fetched from their audio URL; the rest arrive inline as
+// base64, decoded by the browser instead of an atob loop
+async function fetchGeneratedAudio(clip: ClipLink | undefined, audioBase64 = ""): Promise<ArrayBuffer> {
+  const response = await fetch(
+    clip ? clip.audioUrl : `data:application/octet-stream;base64,${audioBase64}`
+  );
+  if (!response.ok) throw new Error(`Audio fetch failed: ${response.status}`);
+  return response.arrayBuffer();
+}
+
+const INTENSITY_LABELS: Record<number, string> = {
+  1: "Light",
+  2: "Mild",
+  3: "Balanced",
+  4: "Heavy",
+  5: "Full chaos",
+};
+
+function stageLabel(stage: GenerateStage, dialectName: string) {
+  switch (stage) {
+    case "converting":
+      return `Converting to ${dialectName}...`;
+    case "synthesizing":
+      return "Generating audio...";
+    case "done":
+      return "Done";
+  }
+}
+
 export default function Page() {
   const [text, setText] = React.useState("");
   const [speaker, setSpeaker] = React.useState("sunny");
+  const [speakers, setSpeakers] = React.useState<readonly string[]>(SPEAKERS);
+  const [dialects, setDialects] = React.useState<DialectSummary[]>(DEFAULT_DIALECTS);
+  const [dialect, setDialect] = React.useState(DEFAULT_DIALECTS[0].id);
+  const [intensity, setIntensity] = React.useState(DEFAULT_INTENSITY);
+  const [familyFriendly, setFamilyFriendly] = React.useState(false);
+  const [showAdvanced, setShowAdvanced] = React.useState(false);
+  const [pace, setPace] = React.useState(DEFAULT_DIALECTS[0].pace);
+  const [sampleRate, setSampleRate] = React.useState<number>(DEFAULT_SAMPLE_RATE);
+  const [languageCode, setLanguageCode] = React.useState(DEFAULT_DIALECTS[0].languageCode);
+  const [format, setFormat] = React.useState<AudioFormat>(DEFAULT_AUDIO_FORMAT);
   const [loading, setLoading] = React.useState(false);
-  const [result, setResult] = React.useState<{
-    bangaloreText: string;
-    audioBase64: string;
-  } | null>(null);
-  const [error, setError] = React.useState<{
-    message: string;
-    code?: string;
-    retryAfter?: number;
-  } | null>(null);
+  const [result, setResult] = React.useState<Clip | null>(null);
+  const [error, setError] = React.useState<ErrorResponse | null>(null);
   const [isPlaying, setIsPlaying] = React.useState(false);
+  const [linkCopied, setLinkCopied] = React.useState(false);
+  const [stage, setStage] = React.useState<GenerateStage | null>(null);
+  const [streamingText, setStreamingText] = React.useState("");
+  const [maxInputLength, setMaxInputLength] = React.useState(DEFAULT_MAX_INPUT_LENGTH);
+  const [history, setHistory] = React.useState<HistoryEntry[]>([]);
+
+  React.useEffect(() => {
+    fetch("/api/generate")
+      .then((res) => res.json())
+      .then((data: Partial<GenerateConfigResponse>) => {
+        if (typeof data.maxInputLength === "number") {
+          setMaxInputLength(data.maxInputLength);
+        }
+        if (Array.isArray(data.dialects) && data.dialects.length > 0) {
+          setDialects(data.dialects);
+        }
+        // Keep the curated voices the server offers, or all of its own if none match
+        const voices = data.voices?.[DEFAULT_TTS_MODEL];
+        if (voices && voices.length > 0) {
+          const curated = SPEAKERS.filter((s) => voices.includes(s));
+          setSpeakers(curated.length > 0 ? curated : voices);
+        }
+      })
+      .catch(() => {
+        // keep the fallback limit
+      });
+  }, []);
+
+  React.useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch((err) => console.error("History read error:", err));
+  }, []);
+
+  // Best-effort: a clip that can't be saved is still shown, just not kept
+  async function saveToHistory(clip: Clip, voice: string) {
+    try {
+      const entry = await addToHistory({
+        dialect: clip.dialect,
+        intensity: clip.intensity,
+        mode: clip.mode,
+        familyFriendly: clip.familyFriendly,
+        originalText: clip.originalText,
+        bangaloreText: clip.bangaloreText,
+        speaker: voice,
+        speech: clip.speech,
+        format: clip.format,
+        audio: clip.audio,
+        clip: clip.clip,
+      });
+      setHistory((prev) => [entry, ...prev].slice(0, HISTORY_LIMIT));
+    } catch (err) {
+      console.error("History write error:", err);
+    }
+  }
 
   async function handleGenerate() {
     if (!text.trim()) return;
@@ -61,57 +223,173 @@ export default function Page() {
     setLoading(true);
     setError(null);
     setResult(null);
+    setLinkCopied(false);
     setIsPlaying(false);
 
+    setStage(null);
+    setStreamingText("");
+
     try {
-      const response = await fetch("/api/generate", {
+      const response = await fetch("/api/generate?stream=1", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text, speaker }),
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({
+          text,
+          speaker,
+          dialect,
+          intensity,
+          familyFriendly,
+          pace,
+          sampleRate,
+          languageCode,
+          format,
+        }),
+      });
+
+      // Validation and rate-limit errors come back as plain JSON
+      if (!response.ok || !response.body) {
+        setError(parseErrorResponse(await response.json().catch(() => null)));
+        return;
+      }
+
+      for await (const message of readSseEvents(response.body)) {
+        const { event, data } = message as GenerateStreamEvent;
+
+        if (event === "stage") {
+          setStage(data.stage);
+        } else if (event === "token") {
+          setStreamingText((prev) => prev + data.text);
+        } else if (event === "reset") {
+          setStreamingText("");
+        } else if (event === "error") {
+          setError(parseErrorResponse(data));
+          return;
+        } else if (event === "done") {
+          const { audioBase64, ...metadata } = data;
+          // Kept so this browser can delete the clip from its permalink page
+          if (metadata.clip) rememberDeleteToken(metadata.clip);
+          const clip = { ...metadata, audio: await fetchGeneratedAudio(metadata.clip, audioBase64) };
+          setResult(clip);
+          saveToHistory(clip, speaker);
+          posthog.capture("tts_generated", {
+            prompt: text,
+            voice: speaker,
+            dialect,
+            intensity,
+            familyFriendly,
+            format,
+          });
+        }
+      }
+    } catch {
+      setError({
+        error: "Network error — check your connection and try again.",
+        code: "NETWORK_ERROR",
       });
+    } finally {
+      setLoading(false);
+      setStage(null);
+    }
+  }
 
-      const data = await response.json();
+  // Voices text that's already been converted, skipping the LLM
+  async function speakConverted(partial: ConvertResponse, voice: VoiceSettings) {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setLinkCopied(false);
+    setIsPlaying(false);
 
+    try {
+      const response = await fetch("/api/speak", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "audio/*" },
+        body: JSON.stringify({
+          ...voice,
+          text: partial.bangaloreText,
+          familyFriendly: partial.familyFriendly,
+          dialect: partial.dialect,
+        }),
+      });
       if (!response.ok) {
-        setError({
-          message: data.error || "Something went wrong",
-          code: data.code,
-          retryAfter: data.retryAfter,
-        });
+        // Errors are still JSON; hold on to the text so the retry can be tried again
+        const data = await response.json().catch(() => null);
+        setError({ ...parseErrorResponse(data), partial });
         return;
       }
 
-      setResult(data);
-      posthog.capture("tts_generated", {
-        prompt: text,
-        voice: speaker,
-      });
+      // The audio comes back as raw bytes, with its settings in headers
+      const { speech, format: audioFormat, cached } = parseSpeakAudioHeaders(response.headers);
+      const audio = await response.arrayBuffer();
+      const clip = { ...partial, speech, format: audioFormat, cached, audio };
+      setResult(clip);
+      saveToHistory(clip, voice.speaker);
     } catch {
-      setError({ message: "Network error — check your connection and try again." });
+      setError({
+        error: "Network error — check your connection and try again.",
+        code: "NETWORK_ERROR",
+        partial,
+      });
     } finally {
       setLoading(false);
     }
   }
 
+  // Conversion worked but speech didn't: voice the converted text on its own
+  function handleRetryAudio() {
+    if (!error?.partial) return;
+    speakConverted(error.partial, { speaker, pace, sampleRate, languageCode, format });
+  }
+
+  // Same text and speech settings as before, in someone else's voice
+  function handleRegenerate(entry: HistoryEntry, voice: string) {
+    const { pace, sampleRate, languageCode } = entry.speech;
+    speakConverted(entry, { speaker: voice, pace, sampleRate, languageCode, format: entry.format });
+  }
+
+  async function handleDeleteHistory(id: string) {
+    setHistory((prev) => prev.filter((entry) => entry.id !== id));
+    await deleteFromHistory(id).catch((err) => console.error("History delete error:", err));
+  }
+
+  async function handleClearHistory() {
+    setHistory([]);
+    await clearHistory().catch((err) => console.error("History clear error:", err));
+  }
+
+  function handleDialectChange(id: string) {
+    setDialect(id);
+    // Each dialect has a voice, pace and language code that suit it best
+    const option = dialects.find((d) => d.id === id);
+    if (option) {
+      setSpeaker(option.defaultSpeaker);
+      setPace(option.pace);
+      setLanguageCode(option.languageCode);
+    }
+  }
+
+  function dialectName(id: string) {
+    return dialects.find((d) => d.id === id)?.name ?? id;
+  }
+
   function handlePlayPause() {
     setIsPlaying((prev) => !prev);
   }
 
-  function handleDownload() {
-    if (!result?.audioBase64) return;
+  async function handleCopyLink() {
+    if (!result?.clip) return;
 
-    const byteCharacters = atob(result.audioBase64);
-    const byteArray = new Uint8Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteArray[i] = byteCharacters.charCodeAt(i);
-    }
-    const blob = new Blob([byteArray], { type: "audio/wav" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "bangalore-english.wav";
-    a.click();
-    URL.revokeObjectURL(url);
+    await navigator.clipboard.writeText(result.clip.url);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  }
+
+  function handleDownload() {
+    if (!result) return;
+    downloadAudio(result.audio, result.format, result.speech.sampleRate, `${result.dialect}-english`);
   }
 
   return (
@@ -130,7 +408,7 @@ export default function Page() {
           <CardHeader>
             <CardTitle>Enter your text</CardTitle>
             <CardDescription>
-              We&apos;ll convert it to Bangalore English and generate audio
+              We&apos;ll convert it to your chosen dialect and generate audio
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -141,14 +419,55 @@ export default function Page() {
                   id="prompt"
                   placeholder='e.g. "The traffic is really bad today and I will be late for work"'
                   value={text}
-                  onChange={(e) => setText(e.target.value.slice(0, 500))}
+                  onChange={(e) => setText(e.target.value.slice(0, maxInputLength))}
                   rows={3}
-                  maxLength={500}
+                  maxLength={maxInputLength}
                 />
-                <span className={`text-[11px] text-right ${text.length > 450 ? "text-destructive" : "text-muted-foreground"}`}>
-                  {text.length}/500
+                <span className={`text-[11px] text-right ${text.length > maxInputLength * 0.9 ? "text-destructive" : "text-muted-foreground"}`}>
+                  {text.length}/{maxInputLength}
                 </span>
               </Field>
+              <Field>
+                <FieldLabel htmlFor="dialect">Dialect</FieldLabel>
+                <Select value={dialect} onValueChange={handleDialectChange}>
+                  <SelectTrigger id="dialect">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {dialects.map((d) => (
+                        <SelectItem key={d.id} value={d.id}>
+                          {d.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </Field>
+              <Field>
+                <div className="flex items-center justify-between">
+                  <FieldLabel htmlFor="intensity">Slang intensity</FieldLabel>
+                  <span className="text-muted-foreground text-xs">
+                    {intensity} · {INTENSITY_LABELS[intensity]}
+                  </span>
+                </div>
+                <Slider
+                  id="intensity"
+                  min={MIN_INTENSITY}
+                  max={MAX_INTENSITY}
+                  step={1}
+                  value={[intensity]}
+                  onValueChange={([value]) => setIntensity(value)}
+                />
+              </Field>
+              <Field orientation="horizontal" className="justify-between">
+                <FieldLabel htmlFor="family-friendly">Family-friendly</FieldLabel>
+                <Switch
+                  id="family-friendly"
+                  checked={familyFriendly}
+                  onCheckedChange={setFamilyFriendly}
+                />
+              </Field>
               <Field>
                 <FieldLabel htmlFor="speaker">Voice</FieldLabel>
                 <Select value={speaker} onValueChange={setSpeaker}>
@@ -157,7 +476,7 @@ export default function Page() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectGroup>
-                      {SPEAKERS.map((s) => (
+                      {speakers.map((s) => (
                         <SelectItem key={s} value={s}>
                           {s.charAt(0).toUpperCase() + s.slice(1)}
                         </SelectItem>
@@ -166,6 +485,98 @@ export default function Page() {
                   </SelectContent>
                 </Select>
               </Field>
+              <div className="space-y-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowAdvanced((prev) => !prev)}
+                  aria-expanded={showAdvanced}
+                >
+                  {showAdvanced ? (
+                    <RiArrowUpSLine data-icon="inline-start" />
+                  ) : (
+                    <RiArrowDownSLine data-icon="inline-start" />
+                  )}
+                  Advanced
+                </Button>
+                {showAdvanced && (
+                  <FieldGroup>
+                    <Field>
+                      <div className="flex items-center justify-between">
+                        <FieldLabel htmlFor="pace">Pace</FieldLabel>
+                        <span className="text-muted-foreground text-xs">
+                          {pace.toFixed(1)}x
+                        </span>
+                      </div>
+                      <Slider
+                        id="pace"
+                        min={PACE_RANGE.min}
+                        max={PACE_RANGE.max}
+                        step={0.1}
+                        value={[pace]}
+                        onValueChange={([value]) => setPace(value)}
+                      />
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="sample-rate">Sample rate</FieldLabel>
+                      <Select
+                        value={String(sampleRate)}
+                        onValueChange={(value) => setSampleRate(Number(value))}
+                      >
+                        <SelectTrigger id="sample-rate">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            {SAMPLE_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {(rate / 1000).toLocaleString()} kHz
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="output-format">Output format</FieldLabel>
+                      <Select
+                        value={format}
+                        onValueChange={(value) => setFormat(value as AudioFormat)}
+                      >
+                        <SelectTrigger id="output-format">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            {AUDIO_FORMAT_IDS.map((id) => (
+                              <SelectItem key={id} value={id}>
+                                {AUDIO_FORMATS[id].label}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </Field>
+                    <Field>
+                      <FieldLabel htmlFor="language-code">Language code</FieldLabel>
+                      <Select value={languageCode} onValueChange={setLanguageCode}>
+                        <SelectTrigger id="language-code">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            {LANGUAGE_CODES.map((code) => (
+                              <SelectItem key={code} value={code}>
+                                {code}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </Field>
+                  </FieldGroup>
+                )}
+              </div>
               <Button
                 onClick={handleGenerate}
                 disabled={loading || !text.trim()}
@@ -174,7 +585,7 @@ export default function Page() {
                 {loading ? (
                   <>
                     <RiLoader4Line className="animate-spin" data-icon="inline-start" />
-                    Generating...
+                    {stage ? stageLabel(stage, dialectName(dialect)) : "Generating..."}
                   </>
                 ) : (
                   <>
@@ -191,13 +602,52 @@ export default function Page() {
           <Card className={error.code === "RATE_LIMITED" ? "border-yellow-500/50 bg-yellow-50/50 dark:bg-yellow-950/20" : "border-destructive/50"}>
             <CardContent className="pt-6 space-y-1">
               <p className={`text-sm font-medium ${error.code === "RATE_LIMITED" ? "text-yellow-800 dark:text-yellow-200" : "text-destructive"}`}>
-                {error.message}
+                {error.error}
               </p>
+              {error.fields && error.fields.length > 1 && (
+                <ul className="text-muted-foreground list-disc pl-4 text-xs">
+                  {error.fields.slice(1).map((f) => (
+                    <li key={f.field}>{f.message}</li>
+                  ))}
+                </ul>
+              )}
               {error.retryAfter && error.retryAfter <= 60 && (
                 <p className="text-muted-foreground text-xs">
                   You can try again in {error.retryAfter} seconds.
                 </p>
               )}
+              {error.category && (
+                <p className="text-muted-foreground text-xs">Reason: {error.category}</p>
+              )}
+              {error.partial && (
+                <div className="space-y-3 pt-2">
+                  <p className="text-muted-foreground bg-muted rounded-lg p-3 text-sm whitespace-pre-line italic">
+                    {error.partial.bangaloreText}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={handleRetryAudio} disabled={loading}>
+                    Retry audio only
+                  </Button>
+                </div>
+              )}
+              {error.requestId && (
+                <p className="text-muted-foreground font-mono text-xs">Request ID: {error.requestId}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {loading && streamingText && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{dialectName(dialect)}</CardTitle>
+              {stage && (
+                <CardDescription>{stageLabel(stage, dialectName(dialect))}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground bg-muted rounded-lg p-3 text-sm whitespace-pre-line italic">
+                &ldquo;{streamingText}&rdquo;
+              </p>
             </CardContent>
           </Card>
         )}
@@ -205,23 +655,55 @@ export default function Page() {
         {result && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Bangalore English</CardTitle>
+              <CardTitle className="text-base">{dialectName(result.dialect)}</CardTitle>
+              {(result.cached || result.mode === "rules") && (
+                <CardAction className="flex gap-1">
+                  {result.mode === "rules" && (
+                    <Badge variant="outline" title="The LLM was unavailable, so the offline rules converted this">
+                      Offline rules
+                    </Badge>
+                  )}
+                  {result.cached && <Badge variant="secondary">Cached</Badge>}
+                </CardAction>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
-              <p className="text-muted-foreground bg-muted rounded-lg p-3 text-sm italic">
+              <p className="text-muted-foreground bg-muted rounded-lg p-3 text-sm whitespace-pre-line italic">
                 &ldquo;{result.bangaloreText}&rdquo;
               </p>
               <WaveformPlayer
-                audioBase64={result.audioBase64}
+                audio={result.audio}
+                format={result.format}
+                sampleRate={result.speech.sampleRate}
                 isPlaying={isPlaying}
                 onPlayPause={handlePlayPause}
                 onEnded={() => setIsPlaying(false)}
                 onDownload={handleDownload}
               />
+              {result.clip && (
+                <Button onClick={handleCopyLink} variant="outline" className="w-full">
+                  {linkCopied ? (
+                    <RiCheckLine data-icon="inline-start" />
+                  ) : (
+                    <RiLinkM data-icon="inline-start" />
+                  )}
+                  {linkCopied ? "Copied!" : "Copy link"}
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
 
+        <HistoryPanel
+          entries={history}
+          speakers={speakers}
+          busy={loading}
+          dialectName={dialectName}
+          onRegenerate={handleRegenerate}
+          onDelete={handleDeleteHistory}
+          onClear={handleClearHistory}
+        />
+
         <p className="text-muted-foreground text-center text-xs">
           Built with &hearts; and{" "}
           <a href="https://www.sarvam.ai" target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-foreground">
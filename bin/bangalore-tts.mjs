@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in cli/ without a build step, resolving the app's
+// "@/..." imports the same way tsconfig.json does.
+import { createJiti } from "jiti";
+import { existsSync } from "node:fs";
+import { loadEnvFile } from "node:process";
+import { fileURLToPath } from "node:url";
+
+const root = fileURLToPath(new URL("..", import.meta.url)).replace(/\/$/, "");
+
+// Like Next, reads .env.local then .env from the app's root; real env vars win.
+// This has to happen before the CLI is imported, since the pipeline modules
+// read some settings (timeouts, retries, the rules fallback) when they load.
+for (const file of [".env.local", ".env"]) {
+  if (existsSync(`${root}/${file}`)) loadEnvFile(`${root}/${file}`);
+}
+
+const jiti = createJiti(import.meta.url, { alias: { "@": root } });
+
+const { main } = await jiti.import(`${root}/cli/index.ts`);
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,258 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { convertText } from "@/lib/convert";
+import { speakText } from "@/lib/speak";
+import { moderateText } from "@/lib/moderation";
+import { transcodeWav } from "@/lib/transcode";
+import { base64ToBytes } from "@/lib/wav";
+import { AUDIO_FORMATS } from "@/lib/audio-formats";
+import { getDialectConverter } from "@/lib/converters";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import { MAX_INPUT_LENGTH, type ConvertResponse, type ErrorResponse } from "@/lib/schema";
+import {
+  contentBlockedBody,
+  failureBody,
+  parseTextRequest,
+  textFieldsToBody,
+  toConvertResponse,
+  type TextRequest,
+} from "@/lib/api";
+
+// --- bangalore-tts: the convert / speak / generate pipeline from a terminal ---
+// Same validation, moderation, prompt and synthesizer as the API routes,
+// minus the rate limit, budget, cache and permalinks.
+
+const COMMANDS = ["convert", "speak", "generate"] as const;
+type Command = (typeof COMMANDS)[number];
+
+const USAGE = `Usage: bangalore-tts <convert|speak|generate> [file...] [options]
+
+Reads each file (or stdin when there are none, or for "-") as one text.
+
+  convert    Print the text converted to the dialect
+  speak      Voice the text as-is
+  generate   Convert, then voice the converted text
+
+Options:
+  -o, --out <dir>          Where audio files go (default: current directory)
+      --json               Print one JSON object per input instead of plain text
+      --speaker <name>     Voice (default: the dialect's)
+      --dialect <id>       bangalore, chennai, mumbai, hyderabadi or kerala
+      --intensity <1-5>    Slang intensity (default: 3)
+      --mode <llm|rules>   Conversion mode (default: llm)
+      --seed <n>           Seed for the rule engine
+      --family-friendly    Keep it clean
+      --model <id>         bulbul:v3 or bulbul:v2
+      --pace <n>           Speech pace (default: the dialect's)
+      --sample-rate <hz>   Sample rate (default: 48000)
+      --language-code <c>  Bulbul language code (default: the dialect's)
+      --format <f>         wav, pcm, mp3 or ogg (default: wav)
+  -h, --help               Show this help
+
+Texts can be up to ${MAX_INPUT_LENGTH} characters.`;
+
+// Flags that map straight onto /api/generate body fields
+const BODY_FLAGS = {
+  speaker: "speaker",
+  dialect: "dialect",
+  intensity: "intensity",
+  mode: "mode",
+  seed: "seed",
+  model: "model",
+  pace: "pace",
+  "sample-rate": "sampleRate",
+  "language-code": "languageCode",
+  format: "format",
+} as const;
+
+type Outcome<T> = { ok: true; value: T } | { ok: false; error: ErrorResponse };
+
+interface Input {
+  /** File name without its extension, or "stdin"; also names the audio file */
+  name: string;
+  text: string;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readInputs(files: string[]): Promise<Input[]> {
+  if (files.length === 0) files = ["-"];
+  return Promise.all(
+    files.map(async (file) =>
+      file === "-"
+        ? { name: "stdin", text: (await readStdin()).trim() }
+        : { name: path.parse(file).name, text: (await readFile(file, "utf8")).trim() }
+    )
+  );
+}
+
+async function convert(body: TextRequest): Promise<Outcome<ConvertResponse>> {
+  const { familyFriendly } = body.conversion;
+  try {
+    const converted = await convertText(body.text, body.dialect, body.intensity, body.conversion);
+
+    const verdict = await moderateText(converted.text, { stage: "output", familyFriendly });
+    if (!verdict.allowed) return { ok: false, error: contentBlockedBody(verdict) };
+    return { ok: true, value: toConvertResponse(body, converted) };
+  } catch (error) {
+    return { ok: false, error: failureBody(error).body };
+  }
+}
+
+async function speak(
+  text: string,
+  { speaker, speech, format }: TextRequest,
+  partial?: ConvertResponse
+): Promise<Outcome<Uint8Array>> {
+  try {
+    const wav = base64ToBytes(await speakText(text, speaker, speech));
+    return { ok: true, value: transcodeWav(wav, format) };
+  } catch (error) {
+    return { ok: false, error: failureBody(error, partial).body };
+  }
+}
+
+async function run(
+  command: Command,
+  body: TextRequest,
+  writeAudio: (audio: Uint8Array) => Promise<string>
+): Promise<Outcome<Record<string, unknown>>> {
+  const { familyFriendly } = body.conversion;
+  const verdict = await moderateText(body.text, { stage: "input", familyFriendly });
+  if (!verdict.allowed) return { ok: false, error: contentBlockedBody(verdict) };
+
+  if (command === "speak") {
+    const audio = await speak(body.text, body);
+    if (!audio.ok) return audio;
+    const file = await writeAudio(audio.value);
+    return { ok: true, value: { text: body.text, speech: body.speech, format: body.format, file } };
+  }
+
+  const converted = await convert(body);
+  if (!converted.ok) return converted;
+  if (command === "convert") return { ok: true, value: { ...converted.value } };
+
+  const audio = await speak(converted.value.bangaloreText, body, converted.value);
+  if (!audio.ok) return audio;
+  const file = await writeAudio(audio.value);
+  return {
+    ok: true,
+    value: { ...converted.value, speech: body.speech, format: body.format, file },
+  };
+}
+
+/**
+ * Returns the exit code: 0 when every input worked, 1 if any failed, 2 on bad
+ * usage. The app's .env files are loaded by bin/bangalore-tts.mjs beforehand.
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o", default: "." },
+        json: { type: "boolean", default: false },
+        "family-friendly": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+        ...Object.fromEntries(
+          Object.keys(BODY_FLAGS).map((flag) => [flag, { type: "string" as const }])
+        ),
+      },
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...files] = args.positionals;
+  if (args.values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!COMMANDS.includes(command as Command)) {
+    console.error(command ? `Unknown command "${command}"\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+
+  // The server's structured logs would only get in the way of the output here
+  process.env.LOG_LEVEL ??= "silent";
+  // Like the rate limit, budgets only apply to the server
+  process.env.BUDGET_STORE = "memory";
+  try {
+    // Fails on a bad CONVERTER_PROVIDER or unreadable CONVERTER_FIXTURES
+    getDialectConverter();
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+  if (command !== "convert") {
+    const missing = getSpeechSynthesizer().requiredEnv.find((name) => !process.env[name]);
+    if (missing) {
+      console.error(`${missing} not configured`);
+      return 1;
+    }
+  }
+
+  const flags = args.values as Record<string, string | boolean | undefined>;
+  const fields = Object.entries(BODY_FLAGS).flatMap(([flag, field]): [string, string][] =>
+    typeof flags[flag] === "string" ? [[field, flags[flag] as string]] : []
+  );
+  const options = { ...textFieldsToBody(fields), familyFriendly: args.values["family-friendly"] };
+
+  let inputs: Input[];
+  try {
+    inputs = await readInputs(files);
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+
+  const outDir = args.values.out as string;
+  let exitCode = 0;
+
+  for (const input of inputs) {
+    const report = (outcome: Outcome<Record<string, unknown>>) => {
+      if (!outcome.ok) exitCode = 1;
+      if (args.values.json) {
+        const fields = outcome.ok ? outcome.value : { error: outcome.error };
+        console.log(JSON.stringify({ input: input.name, ...fields }));
+      } else if (!outcome.ok) {
+        console.error(`${input.name}: ${outcome.error.error} (${outcome.error.code})`);
+      } else if (command === "speak") {
+        console.log(outcome.value.file);
+      } else {
+        console.log(outcome.value.bangaloreText);
+        if (outcome.value.file) console.error(`Wrote ${outcome.value.file}`);
+      }
+    };
+
+    const parsed = parseTextRequest({ ...options, text: input.text });
+    if (!parsed.ok) {
+      const [first] = parsed.errors;
+      report({
+        ok: false,
+        error: { error: first.message, code: first.code, field: first.field, fields: parsed.errors },
+      });
+      continue;
+    }
+
+    const body = parsed.value;
+    report(
+      await run(command as Command, body, async (audio) => {
+        await mkdir(outDir, { recursive: true });
+        const file = path.join(outDir, `${input.name}.${AUDIO_FORMATS[body.format].extension}`);
+        await writeFile(file, audio);
+        return file;
+      })
+    );
+  }
+
+  return exitCode;
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { RiDeleteBinLine, RiLoader4Line } from "@remixicon/react";
+import { WaveformPlayer } from "@/components/waveform-player";
+import { downloadAudio } from "@/lib/audio-formats";
+import { forgetDeleteToken, getDeleteToken } from "@/lib/clip-tokens";
+import { parseErrorResponse, type ClipResponse } from "@/lib/schema";
+
+interface ClipPlayerProps {
+  clip: ClipResponse;
+}
+
+/** Plays a shared clip, and lets the browser that made it delete it */
+export function ClipPlayer({ clip }: ClipPlayerProps) {
+  const [audio, setAudio] = React.useState<ArrayBuffer | null>(null);
+  const [isPlaying, setIsPlaying] = React.useState(false);
+  const [deleteToken, setDeleteToken] = React.useState<string | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+  const [deleted, setDeleted] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetch(clip.audioUrl)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Clip audio returned ${res.status}`);
+        setAudio(await res.arrayBuffer());
+      })
+      .catch(() => setError("Couldn't load the audio for this clip."));
+  }, [clip.audioUrl]);
+
+  // localStorage only exists in the browser, so this can't happen during render
+  React.useEffect(() => {
+    setDeleteToken(getDeleteToken(clip.id));
+  }, [clip.id]);
+
+  function handleDownload() {
+    if (!audio) return;
+    downloadAudio(audio, clip.format, clip.speech.sampleRate, `${clip.dialect}-english`);
+  }
+
+  async function handleDelete() {
+    if (!deleteToken) return;
+
+    setDeleting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clips/${clip.id}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": deleteToken },
+      });
+      if (!response.ok && response.status !== 404) {
+        setError(parseErrorResponse(await response.json().catch(() => null)).error);
+        return;
+      }
+      forgetDeleteToken(clip.id);
+      setIsPlaying(false);
+      setDeleted(true);
+    } catch {
+      setError("Network error — check your connection and try again.");
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  if (deleted) {
+    return <p className="text-muted-foreground text-sm">Clip deleted. The link won&apos;t work any more.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {audio ? (
+        <WaveformPlayer
+          audio={audio}
+          format={clip.format}
+          sampleRate={clip.speech.sampleRate}
+          isPlaying={isPlaying}
+          onPlayPause={() => setIsPlaying((prev) => !prev)}
+          onEnded={() => setIsPlaying(false)}
+          onDownload={handleDownload}
+        />
+      ) : (
+        !error && (
+          <div className="text-muted-foreground flex items-center gap-2 text-sm">
+            <RiLoader4Line className="size-4 animate-spin" />
+            Loading audio...
+          </div>
+        )
+      )}
+      {error && <p className="text-destructive text-sm">{error}</p>}
+      {deleteToken && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" className="w-full" disabled={deleting}>
+              {deleting ? (
+                <RiLoader4Line className="animate-spin" data-icon="inline-start" />
+              ) : (
+                <RiDeleteBinLine data-icon="inline-start" />
+              )}
+              Delete clip
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this clip?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Anyone you&apos;ve shared the link with won&apos;t be able to play it any more.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep it</AlertDialogCancel>
+              <AlertDialogAction variant="destructive" onClick={handleDelete}>
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
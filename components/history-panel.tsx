@@ -0,0 +1,232 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  RiArrowDownSLine,
+  RiArrowUpSLine,
+  RiDeleteBinLine,
+  RiRefreshLine,
+} from "@remixicon/react";
+import { WaveformPlayer } from "@/components/waveform-player";
+import { downloadAudio } from "@/lib/audio-formats";
+import { HISTORY_LIMIT, type HistoryEntry } from "@/lib/history";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  speakers: readonly string[];
+  /** Disables re-generating while another generation is running */
+  busy: boolean;
+  dialectName: (id: string) => string;
+  onRegenerate: (entry: HistoryEntry, speaker: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+function speakerName(speaker: string) {
+  return speaker.charAt(0).toUpperCase() + speaker.slice(1);
+}
+
+/** Past generations from this browser; one is open (and playable) at a time */
+export function HistoryPanel({
+  entries,
+  speakers,
+  busy,
+  dialectName,
+  onRegenerate,
+  onDelete,
+  onClear,
+}: HistoryPanelProps) {
+  const [openId, setOpenId] = React.useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = React.useState(false);
+
+  function handleToggle(id: string) {
+    setIsPlaying(false);
+    setOpenId((prev) => (prev === id ? null : id));
+  }
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">History</CardTitle>
+        <CardDescription>
+          Your last {HISTORY_LIMIT} generations, kept in this browser
+        </CardDescription>
+        <CardAction>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm">
+                Clear all
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear your history?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every saved generation and its audio will be removed from this browser.
+                  Shared links keep working.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep it</AlertDialogCancel>
+                <AlertDialogAction variant="destructive" onClick={onClear}>
+                  Clear all
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map((entry) => (
+          <HistoryItem
+            key={entry.id}
+            entry={entry}
+            speakers={speakers}
+            busy={busy}
+            dialectName={dialectName}
+            open={openId === entry.id}
+            isPlaying={openId === entry.id && isPlaying}
+            onToggle={() => handleToggle(entry.id)}
+            onPlayPause={() => setIsPlaying((prev) => !prev)}
+            onEnded={() => setIsPlaying(false)}
+            onRegenerate={(speaker) => onRegenerate(entry, speaker)}
+            onDelete={() => {
+              if (openId === entry.id) setOpenId(null);
+              onDelete(entry.id);
+            }}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface HistoryItemProps {
+  entry: HistoryEntry;
+  speakers: readonly string[];
+  busy: boolean;
+  dialectName: (id: string) => string;
+  open: boolean;
+  isPlaying: boolean;
+  onToggle: () => void;
+  onPlayPause: () => void;
+  onEnded: () => void;
+  onRegenerate: (speaker: string) => void;
+  onDelete: () => void;
+}
+
+function HistoryItem({
+  entry,
+  speakers,
+  busy,
+  dialectName,
+  open,
+  isPlaying,
+  onToggle,
+  onPlayPause,
+  onEnded,
+  onRegenerate,
+  onDelete,
+}: HistoryItemProps) {
+  // Defaults to some other voice, since that's the point of re-generating
+  const otherVoices = speakers.filter((s) => s !== entry.speaker);
+  const [voice, setVoice] = React.useState(otherVoices[0] ?? entry.speaker);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-start justify-between gap-2">
+        <button
+          type="button"
+          onClick={onToggle}
+          aria-expanded={open}
+          className="min-w-0 flex-1 space-y-1 text-left"
+        >
+          <p className="text-xs font-medium">
+            {dialectName(entry.dialect)} · {speakerName(entry.speaker)}
+            <span className="text-muted-foreground font-normal">
+              {" "}
+              · {new Date(entry.createdAt).toLocaleString()}
+            </span>
+          </p>
+          <p className={`text-muted-foreground text-sm italic ${open ? "whitespace-pre-line" : "line-clamp-2"}`}>
+            &ldquo;{entry.bangaloreText}&rdquo;
+          </p>
+        </button>
+        <div className="flex shrink-0">
+          <Button variant="ghost" size="icon-sm" onClick={onToggle} aria-label={open ? "Collapse" : "Replay"}>
+            {open ? <RiArrowUpSLine /> : <RiArrowDownSLine />}
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onDelete} aria-label="Delete from history">
+            <RiDeleteBinLine />
+          </Button>
+        </div>
+      </div>
+      {open && (
+        <>
+          <p className="text-muted-foreground text-xs">Original: {entry.originalText}</p>
+          <WaveformPlayer
+            audio={entry.audio}
+            format={entry.format}
+            sampleRate={entry.speech.sampleRate}
+            isPlaying={isPlaying}
+            onPlayPause={onPlayPause}
+            onEnded={onEnded}
+            onDownload={() =>
+              downloadAudio(entry.audio, entry.format, entry.speech.sampleRate, `${entry.dialect}-english`)
+            }
+          />
+          <div className="flex gap-2">
+            <Select value={voice} onValueChange={setVoice}>
+              <SelectTrigger className="flex-1" aria-label="Voice to re-generate with">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {speakers.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {speakerName(s)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => onRegenerate(voice)} disabled={busy}>
+              <RiRefreshLine data-icon="inline-start" />
+              Re-generate
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
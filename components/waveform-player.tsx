@@ -7,9 +7,18 @@ import {
   RiPlayLine,
   RiPauseLine,
 } from "@remixicon/react";
+import { AUDIO_FORMATS, playableAudio, type AudioFormat } from "@/lib/audio-formats";
+import {
+  PEAK_COLOR,
+  PEAK_HEIGHT_RATIO,
+  PLAYED_PEAK_COLOR,
+  computePeaks,
+} from "@/lib/waveform";
 
 interface WaveformPlayerProps {
-  audioBase64: string;
+  audio: ArrayBuffer;
+  format: AudioFormat;
+  sampleRate: number;
   isPlaying: boolean;
   onPlayPause: () => void;
   onEnded: () => void;
@@ -17,7 +26,9 @@ interface WaveformPlayerProps {
 }
 
 export function WaveformPlayer({
-  audioBase64,
+  audio,
+  format,
+  sampleRate,
   isPlaying,
   onPlayPause,
   onEnded,
@@ -33,18 +44,14 @@ export function WaveformPlayer({
   const startTimeRef = React.useRef(0);
   const audioBufferRef = React.useRef<AudioBuffer | null>(null);
 
-  // Decode audio buffer on mount / when base64 changes
+  // Decode audio buffer on mount / when the audio changes
   React.useEffect(() => {
     const ctx = new AudioContext();
     audioContextRef.current = ctx;
 
-    const byteChars = atob(audioBase64);
-    const byteArray = new Uint8Array(byteChars.length);
-    for (let i = 0; i < byteChars.length; i++) {
-      byteArray[i] = byteChars.charCodeAt(i);
-    }
-
-    ctx.decodeAudioData(byteArray.buffer).then((buffer) => {
+    // decodeAudioData takes ownership of the buffer, so hand it a copy
+    const playable = playableAudio(new Uint8Array(audio), format, sampleRate).slice();
+    ctx.decodeAudioData(playable.buffer).then((buffer) => {
       audioBufferRef.current = buffer;
       setDuration(buffer.duration);
       drawStaticWaveform(buffer);
@@ -55,7 +62,7 @@ export function WaveformPlayer({
       ctx.close();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [audioBase64]);
+  }, [audio, format, sampleRate]);
 
   // Handle play/pause state changes
   React.useEffect(() => {
@@ -82,29 +89,20 @@ export function WaveformPlayer({
 
     const width = rect.width;
     const height = rect.height;
-    const data = buffer.getChannelData(0);
-    const step = Math.ceil(data.length / width);
     const barWidth = 2;
     const gap = 1.5;
     const totalBarWidth = barWidth + gap;
     const barCount = Math.floor(width / totalBarWidth);
+    const peaks = computePeaks(buffer.getChannelData(0), barCount);
 
     ctx.clearRect(0, 0, width, height);
 
     for (let i = 0; i < barCount; i++) {
-      const start = Math.floor((i / barCount) * data.length);
-      const end = Math.floor(((i + 1) / barCount) * data.length);
-      let max = 0;
-      for (let j = start; j < end; j++) {
-        const abs = Math.abs(data[j]);
-        if (abs > max) max = abs;
-      }
-
-      const barHeight = Math.max(2, max * height * 0.8);
+      const barHeight = Math.max(2, peaks[i] * height * PEAK_HEIGHT_RATIO);
       const x = i * totalBarWidth;
       const y = (height - barHeight) / 2;
 
-      ctx.fillStyle = "oklch(0.708 0 0 / 0.3)";
+      ctx.fillStyle = PEAK_COLOR;
       ctx.beginPath();
       ctx.roundRect(x, y, barWidth, barHeight, 1);
       ctx.fill();
@@ -193,29 +191,21 @@ export function WaveformPlayer({
     canvasCtx.clearRect(0, 0, width, height);
 
     if (buffer) {
-      const channelData = buffer.getChannelData(0);
+      const peaks = computePeaks(buffer.getChannelData(0), barCount);
       const progress = duration > 0 ? elapsed / duration : 0;
 
       for (let i = 0; i < barCount; i++) {
-        const start = Math.floor((i / barCount) * channelData.length);
-        const end = Math.floor(((i + 1) / barCount) * channelData.length);
-        let max = 0;
-        for (let j = start; j < end; j++) {
-          const abs = Math.abs(channelData[j]);
-          if (abs > max) max = abs;
-        }
-
-        const barHeight = Math.max(2, max * height * 0.8);
+        const barHeight = Math.max(2, peaks[i] * height * PEAK_HEIGHT_RATIO);
         const x = i * totalBarWidth;
         const y = (height - barHeight) / 2;
 
         const barProgress = i / barCount;
         if (barProgress <= progress) {
           // Played portion — use primary color
-          canvasCtx.fillStyle = "oklch(0.59 0.26 323)";
+          canvasCtx.fillStyle = PLAYED_PEAK_COLOR;
         } else {
           // Unplayed portion
-          canvasCtx.fillStyle = "oklch(0.708 0 0 / 0.3)";
+          canvasCtx.fillStyle = PEAK_COLOR;
         }
 
         canvasCtx.beginPath();
@@ -225,7 +215,7 @@ export function WaveformPlayer({
 
       // Draw playhead
       const playheadX = progress * width;
-      canvasCtx.fillStyle = "oklch(0.59 0.26 323)";
+      canvasCtx.fillStyle = PLAYED_PEAK_COLOR;
       canvasCtx.beginPath();
       canvasCtx.roundRect(playheadX - 1, 0, 2, height, 1);
       canvasCtx.fill();
@@ -269,7 +259,7 @@ export function WaveformPlayer({
         </Button>
         <Button onClick={onDownload} variant="outline" className="flex-1">
           <RiDownloadLine data-icon="inline-start" />
-          Download
+          Download {AUDIO_FORMATS[format].extension.toUpperCase()}
         </Button>
       </div>
     </div>
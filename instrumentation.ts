@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Jobs live on local disk, so there's nothing to resume on the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { resumeJobs } = await import("@/lib/jobs");
+    await resumeJobs();
+  }
+}
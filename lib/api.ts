@@ -0,0 +1,456 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { encodeSseEvent } from "@/lib/sse";
+import {
+  DEFAULT_DIALECT,
+  getDialect,
+  listDialects,
+  type DialectProfile,
+} from "@/lib/dialects";
+import {
+  resolveSpeechOptions,
+  type Speaker,
+  type SpeechOptions,
+} from "@/lib/tts-options";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import {
+  AUDIO_FORMATS,
+  DEFAULT_AUDIO_FORMAT,
+  audioMimeType,
+  type AudioFormat,
+} from "@/lib/audio-formats";
+import { bytesToBase64 } from "@/lib/wav";
+import type { ConversionOptions, ConversionResult } from "@/lib/convert";
+import { isUpstreamError } from "@/lib/upstream";
+import { currentRequestId, log, withLogContext } from "@/lib/logger";
+import { httpRequestDuration, httpRequests } from "@/lib/metrics";
+import type { ModerationVerdict } from "@/lib/moderation";
+import {
+  DEFAULT_INTENSITY,
+  audioMetadataHeaders,
+  validateTextRequestBody,
+  type GenerateAudioMetadata,
+  type SpeakAudioMetadata,
+  type ConvertResponse,
+  type ErrorCode,
+  type ErrorResponse,
+  type FieldError,
+  type TextRequestBody,
+  type ValidationResult,
+} from "@/lib/schema";
+import {
+  checkRateLimit,
+  identifyClient,
+  type RateLimitClient,
+} from "@/lib/rate-limit";
+import { checkBudget } from "@/lib/budget";
+
+// --- Validation, rate limiting and response helpers shared by API routes ---
+
+export { MAX_INPUT_LENGTH } from "@/lib/schema";
+
+export interface TextRequest {
+  text: string;
+  speaker: Speaker;
+  dialect: DialectProfile;
+  /** Slang intensity, only used by endpoints that run the LLM */
+  intensity: number;
+  /** LLM or rule-engine conversion; `familyFriendly` also drives moderation */
+  conversion: ConversionOptions;
+  /** Bulbul settings, only used by endpoints that synthesise audio */
+  speech: SpeechOptions;
+  /** Encoding the audio is returned in */
+  format: AudioFormat;
+}
+
+export function errorResponse(
+  status: number,
+  error: string,
+  code: ErrorCode,
+  init?: { headers?: Record<string, string>; extra?: Partial<ErrorResponse> }
+): NextResponse<ErrorResponse> {
+  return NextResponse.json<ErrorResponse>(
+    { error, code, ...init?.extra, requestId: currentRequestId() },
+    { status, headers: init?.headers }
+  );
+}
+
+export function validationErrorResponse(errors: FieldError[]): NextResponse<ErrorResponse> {
+  const [first] = errors;
+  return errorResponse(400, first.message, first.code, {
+    extra: { field: first.field, allowed: first.allowed, fields: errors },
+  });
+}
+
+/**
+ * Validates `{ text, speaker, dialect, intensity, mode, seed, familyFriendly,
+ * model, pace, sampleRate, languageCode, format }` bodies, returning a 400
+ * listing every bad field on failure.
+ * Speaker, pace and language code default to the dialect's own settings.
+ */
+export async function readTextRequest(
+  request: Request
+): Promise<TextRequest | NextResponse<ErrorResponse>> {
+  const json = await readJsonBody(request);
+  if (json instanceof NextResponse) return json;
+  return resolveTextRequest(json);
+}
+
+/** Parses the body as JSON, or returns a 400 when it isn't */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return validationErrorResponse([
+      { field: "body", code: "INVALID_JSON", message: "Request body must be valid JSON" },
+    ]);
+  }
+}
+
+const NUMERIC_TEXT_FIELDS = new Set(["intensity", "seed", "pace", "sampleRate"]);
+const BOOLEAN_TEXT_VALUES: Record<string, boolean> = { true: true, 1: true, false: false, 0: false };
+
+/**
+ * Turns string-valued fields (a query string, a CSV row) into a request body,
+ * parsing the numeric and boolean ones.
+ */
+export function textFieldsToBody(fields: Iterable<[string, string]>): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (const [field, value] of fields) {
+    if (NUMERIC_TEXT_FIELDS.has(field)) {
+      body[field] = value.trim() === "" ? NaN : Number(value);
+    } else if (field === "familyFriendly") {
+      // Anything else stays a string for validation to reject
+      body[field] = BOOLEAN_TEXT_VALUES[value] ?? value;
+    } else {
+      body[field] = value;
+    }
+  }
+  return body;
+}
+
+/**
+ * Same as `readTextRequest`, but reads the fields from the query string so a
+ * plain URL (e.g. an `<audio src>`) can make the request.
+ */
+export function readTextQuery(request: Request): TextRequest | NextResponse<ErrorResponse> {
+  return resolveTextRequest(textFieldsToBody(new URL(request.url).searchParams));
+}
+
+function resolveTextRequest(json: unknown): TextRequest | NextResponse<ErrorResponse> {
+  const parsed = parseTextRequest(json);
+  return parsed.ok ? parsed.value : validationErrorResponse(parsed.errors);
+}
+
+/** Validates a body and fills in its defaults, collecting every bad field */
+export function parseTextRequest(json: unknown): ValidationResult<TextRequest> {
+  const parsed = validateTextRequestBody(json);
+  if (!parsed.ok && parsed.errors.some((error) => error.field === "body")) return parsed;
+
+  // The checks below still run when the type check failed, so every bad field
+  // is reported at once; fields with the wrong type are left out of them
+  const errors: FieldError[] = parsed.ok ? [] : [...parsed.errors];
+  const mistyped = new Set(errors.map((error) => error.field));
+  const field = <K extends keyof TextRequestBody>(name: K) =>
+    mistyped.has(name) ? undefined : (json as Partial<TextRequestBody>)[name];
+
+  const dialectId = field("dialect") ?? DEFAULT_DIALECT;
+  const dialect = getDialect(dialectId);
+  if (!dialect) {
+    errors.push({
+      field: "dialect",
+      code: "UNKNOWN_DIALECT",
+      message: `Unknown dialect "${dialectId}"`,
+      allowed: listDialects().map((d) => d.id),
+    });
+  }
+
+  const speech = resolveSpeechOptions(
+    {
+      model: field("model"),
+      pace: field("pace"),
+      sampleRate: field("sampleRate"),
+      languageCode: field("languageCode"),
+    },
+    {
+      pace: dialect?.pace ?? 1,
+      languageCode: dialect?.targetLanguageCode ?? "en-IN",
+    }
+  );
+  if (!speech.ok) {
+    errors.push({ field: speech.field, code: "INVALID_PARAMETER", message: speech.error });
+  }
+
+  // Voices depend on the model, so a mistyped model leaves nothing to check against
+  const speaker = field("speaker") || dialect?.defaultSpeaker;
+  const voices: readonly string[] = speech.ok
+    ? getSpeechSynthesizer().voices[speech.options.model]
+    : [];
+  if (speech.ok && !mistyped.has("model") && speaker && !voices.includes(speaker)) {
+    errors.push({
+      field: "speaker",
+      code: "INVALID_PARAMETER",
+      message: `Unknown speaker "${speaker}" for ${speech.options.model}`,
+      allowed: [...voices],
+    });
+  }
+
+  if (!parsed.ok || errors.length > 0 || !dialect || !speech.ok) return { ok: false, errors };
+
+  const value: TextRequest = {
+    text: parsed.value.text,
+    speaker: speaker as Speaker,
+    dialect,
+    intensity: parsed.value.intensity ?? DEFAULT_INTENSITY,
+    conversion: {
+      mode: parsed.value.mode ?? "llm",
+      seed: parsed.value.seed,
+      familyFriendly: parsed.value.familyFriendly ?? false,
+    },
+    speech: speech.options,
+    format: parsed.value.format ?? DEFAULT_AUDIO_FORMAT,
+  };
+  return { ok: true, value };
+}
+
+export function toConvertResponse(
+  { text, dialect, intensity, conversion }: TextRequest,
+  converted: ConversionResult
+): ConvertResponse {
+  return {
+    dialect: dialect.id,
+    intensity,
+    mode: converted.mode,
+    familyFriendly: conversion.familyFriendly,
+    originalText: text,
+    bangaloreText: converted.text,
+  };
+}
+
+export function authorize(request: Request): RateLimitClient | NextResponse {
+  return identifyClient(request) ?? errorResponse(401, "Unknown API key", "INVALID_API_KEY");
+}
+
+const BUDGET_MESSAGES = {
+  daily: "Aiyo, this playground has spent its budget for today. Come back tomorrow!",
+  monthly: "Aiyo, this playground has spent its budget for the month. Come back next month!",
+};
+
+/**
+ * Returns a 503 when the spending budget has run out, or a 429 when the
+ * client is over its limit, otherwise null. Requests that cost us nothing
+ * upstream (`chargeDaily: false`) skip the budget too.
+ */
+export async function enforceRateLimit(
+  client: RateLimitClient,
+  options?: { chargeDaily?: boolean }
+): Promise<NextResponse | null> {
+  if (options?.chargeDaily !== false) {
+    const budget = await checkBudget(client.tier);
+    if (!budget.allowed) {
+      return errorResponse(503, BUDGET_MESSAGES[budget.period], "BUDGET_EXHAUSTED", {
+        headers: { "Retry-After": String(budget.retryAfter) },
+        extra: { retryAfter: budget.retryAfter },
+      });
+    }
+  }
+
+  const { allowed, retryAfter, limitedBy } = await checkRateLimit(client, options);
+  if (allowed) return null;
+
+  return errorResponse(
+    429,
+    limitedBy === "daily"
+      ? "Daily limit reached — this playground has hit its quota for today. Come back tomorrow!"
+      : `Slow down, macha! Too many requests. Try again in ${retryAfter}s.`,
+    "RATE_LIMITED",
+    { headers: { "Retry-After": String(retryAfter) }, extra: { retryAfter } }
+  );
+}
+
+export function requireEnv(...names: string[]): NextResponse | null {
+  const missing = names.find((name) => !process.env[name]);
+  return missing
+    ? errorResponse(500, `${missing} not configured`, "SERVER_MISCONFIGURED")
+    : null;
+}
+
+export function clipNotFoundResponse(): NextResponse<ErrorResponse> {
+  return errorResponse(404, "Aiyo, that clip doesn't exist or has expired.", "CLIP_NOT_FOUND");
+}
+
+export function jobNotFoundResponse(): NextResponse<ErrorResponse> {
+  return errorResponse(404, "Aiyo, no job with that ID. It may have expired.", "JOB_NOT_FOUND");
+}
+
+const UPSTREAM_MESSAGES = {
+  CONVERSION_FAILED: "Aiyo, couldn't convert that right now. Try again in a bit.",
+  TTS_FAILED: "Aiyo, the voice didn't come out. Try again in a bit.",
+  UPSTREAM_TIMEOUT: "That took too long, macha. Try again in a bit.",
+};
+
+const BLOCKED_MESSAGES = {
+  input: "Aiyo, can't say that one, macha. Try something else.",
+  output: "Aiyo, that came out too spicy to say. Try rephrasing it.",
+};
+
+export function contentBlockedBody(
+  verdict: Extract<ModerationVerdict, { allowed: false }>
+): ErrorResponse {
+  return {
+    error: BLOCKED_MESSAGES[verdict.stage],
+    code: "CONTENT_BLOCKED",
+    category: verdict.category,
+    requestId: currentRequestId(),
+  };
+}
+
+/** Returns a 422 for text the moderation layer rejected, otherwise null */
+export function contentBlockedResponse(verdict: ModerationVerdict): NextResponse | null {
+  if (verdict.allowed) return null;
+  return NextResponse.json<ErrorResponse>(contentBlockedBody(verdict), { status: 422 });
+}
+
+/** Maps a failed generation to a status and body, keeping any converted text */
+export function failureBody(
+  error: unknown,
+  partial?: ConvertResponse
+): { status: number; body: ErrorResponse } {
+  const requestId = currentRequestId();
+  if (!isUpstreamError(error)) {
+    return {
+      status: 500,
+      body: { error: "Aiyo, something broke! Try again in a bit.", code: "SERVER_ERROR", partial, requestId },
+    };
+  }
+  return {
+    status: error.code === "UPSTREAM_TIMEOUT" ? 504 : 502,
+    body: { error: UPSTREAM_MESSAGES[error.code], code: error.code, partial, requestId },
+  };
+}
+
+export function failureResponse(error: unknown, partial?: ConvertResponse): NextResponse {
+  const { status, body } = failureBody(error, partial);
+  return NextResponse.json<ErrorResponse>(body, { status });
+}
+
+// Raw audio instead of base64-in-JSON, via `Accept: audio/*` or ?binary=1
+export function wantsBinaryAudio(request: Request): boolean {
+  const accept = request.headers.get("accept") ?? "";
+  return accept.includes("audio/") || new URL(request.url).searchParams.get("binary") === "1";
+}
+
+/**
+ * Returns a synthesised clip either as JSON with `audioBase64`, or as the raw
+ * audio bytes with the rest of the metadata in X- headers.
+ */
+export function clipResponse<T extends SpeakAudioMetadata | GenerateAudioMetadata>(
+  metadata: T,
+  audio: Uint8Array,
+  { binary }: { binary: boolean }
+): Response {
+  if (!binary) {
+    return NextResponse.json<T & { audioBase64: string }>({
+      ...metadata,
+      audioBase64: bytesToBase64(audio),
+    });
+  }
+
+  const name = "dialect" in metadata ? `${metadata.dialect}-english` : "speech";
+  return new Response(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": audioMimeType(metadata.format, metadata.speech.sampleRate),
+      "Content-Length": String(audio.byteLength),
+      "Content-Disposition": `inline; filename="${name}.${AUDIO_FORMATS[metadata.format].extension}"`,
+      ...audioMetadataHeaders(metadata),
+    },
+  });
+}
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Streams the events `run` sends. When the client disconnects, `signal`
+ * aborts so the pipeline stops calling (and paying for) upstreams, and
+ * anything sent after that is dropped.
+ */
+export function sseResponse(
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>
+): Response {
+  const disconnected = new AbortController();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (!disconnected.signal.aborted) controller.enqueue(encodeSseEvent(event, data));
+      };
+
+      try {
+        await run(send, disconnected.signal);
+      } catch (error) {
+        if (disconnected.signal.aborted) {
+          log.info("generation_cancelled");
+        } else {
+          log.error("generation_failed", { error });
+          send("error", failureBody(error).body);
+        }
+      } finally {
+        if (!disconnected.signal.aborted) controller.close();
+      }
+    },
+
+    cancel() {
+      disconnected.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// --- Request IDs, request logs and metrics ---
+
+// Callers may pass their own ID through (e.g. from a proxy), within reason
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Wraps a route handler so everything it logs carries a request ID, sent back
+ * as `X-Request-Id` (and in error bodies), and each request is logged and
+ * counted once it has responded. `route` is the path pattern, e.g.
+ * "/api/clips/[id]", so metrics don't get a series per clip.
+ */
+export function withRequestContext<Context>(
+  route: string,
+  handler: (request: Request, context: Context) => Promise<Response>
+): (request: Request, context: Context) => Promise<Response> {
+  return (request, context) => {
+    const incoming = request.headers.get("x-request-id");
+    const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+    return withLogContext({ requestId }, async () => {
+      const started = performance.now();
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        log.error("unhandled_error", { error });
+        response = failureResponse(error);
+      }
+
+      // Streams keep going after this, so this is the time to first byte
+      const durationMs = Math.round(performance.now() - started);
+      const { method } = request;
+      const status = String(response.status);
+      httpRequests.inc({ route, method, status });
+      httpRequestDuration.observe({ route, method }, durationMs / 1000);
+      log.info("request", { method, route, status: response.status, durationMs });
+
+      response.headers.set("X-Request-Id", requestId);
+      return response;
+    });
+  };
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { log } from "@/lib/logger";
+
+// --- Content-addressed cache of converted text + audio on local disk ---
+
+export interface CachedGeneration {
+  bangaloreText: string;
+  audio: Uint8Array;
+}
+
+export interface AudioCache {
+  get(key: string): Promise<CachedGeneration | null>;
+  set(key: string, entry: CachedGeneration): Promise<void>;
+}
+
+/**
+ * Hashes everything that affects the output. Callers should pass the input
+ * text plus every prompt/model/TTS parameter, so changing any of them misses.
+ */
+export function cacheKey(parts: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(
+    Object.entries(parts).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex");
+}
+
+/**
+ * Each entry is a `<key>.wav` plus a `<key>.json` sidecar. Recency is tracked
+ * through file mtimes (bumped on every hit), so LRU order survives restarts.
+ * Once the directory exceeds `maxBytes`, least recently used entries go
+ * until it's back under 90% of it. Between scans the size is tallied from
+ * what was written, so a write only stats the directory when it may be full.
+ */
+export function createDiskAudioCache(dir: string, maxBytes: number): AudioCache {
+  const wavPath = (key: string) => path.join(dir, `${key}.wav`);
+  const metaPath = (key: string) => path.join(dir, `${key}.json`);
+  // Bytes on disk as of the last scan plus everything written since
+  let knownBytes: number | null = null;
+
+  async function evict(): Promise<void> {
+    const files = await fs.readdir(dir);
+    const entries = new Map<string, { size: number; mtimeMs: number }>();
+
+    for (const file of files) {
+      const key = file.replace(/\.(wav|json)$/, "");
+      if (key === file) continue;
+      const stat = await fs.stat(path.join(dir, file)).catch(() => null);
+      if (!stat) continue;
+
+      const entry = entries.get(key) ?? { size: 0, mtimeMs: 0 };
+      entry.size += stat.size;
+      entry.mtimeMs = Math.max(entry.mtimeMs, stat.mtimeMs);
+      entries.set(key, entry);
+    }
+
+    let total = [...entries.values()].reduce((sum, e) => sum + e.size, 0);
+    const oldestFirst = [...entries].sort(([, a], [, b]) => a.mtimeMs - b.mtimeMs);
+
+    if (total > maxBytes) {
+      for (const [key, entry] of oldestFirst) {
+        if (total <= maxBytes * 0.9) break;
+        await fs.rm(wavPath(key), { force: true });
+        await fs.rm(metaPath(key), { force: true });
+        total -= entry.size;
+      }
+    }
+    knownBytes = total;
+  }
+
+  return {
+    async get(key) {
+      try {
+        const meta = JSON.parse(await fs.readFile(metaPath(key), "utf8"));
+        const audio = await fs.readFile(wavPath(key));
+
+        // Mark as recently used
+        const now = new Date();
+        await fs.utimes(metaPath(key), now, now);
+        await fs.utimes(wavPath(key), now, now);
+
+        return { bangaloreText: meta.bangaloreText, audio: new Uint8Array(audio) };
+      } catch {
+        return null;
+      }
+    },
+
+    async set(key, entry) {
+      await fs.mkdir(dir, { recursive: true });
+      const meta = JSON.stringify({ bangaloreText: entry.bangaloreText, createdAt: Date.now() });
+      // Audio first: a sidecar without its WAV would be a broken hit
+      await fs.writeFile(wavPath(key), entry.audio);
+      await fs.writeFile(metaPath(key), meta);
+
+      if (knownBytes !== null) knownBytes += entry.audio.byteLength + Buffer.byteLength(meta);
+      if (knownBytes === null || knownBytes > maxBytes) await evict();
+    },
+  };
+}
+
+let cache: AudioCache | null | undefined;
+
+// AUDIO_CACHE_MAX_MB=0 turns caching off
+export function getAudioCache(): AudioCache | null {
+  if (cache !== undefined) return cache;
+
+  const maxMb = Number(process.env.AUDIO_CACHE_MAX_MB ?? 200);
+  cache =
+    maxMb > 0
+      ? createDiskAudioCache(
+          process.env.AUDIO_CACHE_DIR ?? ".data/audio-cache",
+          maxMb * 1024 * 1024
+        )
+      : null;
+  return cache;
+}
+
+// Best-effort write: a failing cache should never fail the request
+export async function saveToAudioCache(key: string, entry: CachedGeneration): Promise<void> {
+  try {
+    await getAudioCache()?.set(key, entry);
+  } catch (error) {
+    log.error("audio_cache_write_failed", { error });
+  }
+}
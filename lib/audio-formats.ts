@@ -0,0 +1,55 @@
+import { encodeWav } from "@/lib/wav";
+
+// --- Audio formats the API can return, with their MIME types ---
+// Kept free of server-only imports so the page can label downloads with it.
+
+export const AUDIO_FORMATS = {
+  wav: { label: "WAV", mimeType: "audio/wav", extension: "wav" },
+  // Headerless samples at the request's sample rate, big-endian as audio/L16 requires
+  pcm: { label: "Raw PCM (16-bit mono)", mimeType: "audio/L16", extension: "pcm" },
+  mp3: { label: "MP3", mimeType: "audio/mpeg", extension: "mp3" },
+  ogg: { label: "OGG/Opus", mimeType: "audio/ogg; codecs=opus", extension: "ogg" },
+} as const;
+
+export type AudioFormat = keyof typeof AUDIO_FORMATS;
+
+export const AUDIO_FORMAT_IDS = Object.keys(AUDIO_FORMATS) as AudioFormat[];
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = "wav";
+
+/** MIME type for a format; raw PCM also needs its rate to be playable */
+export function audioMimeType(format: AudioFormat, sampleRate: number): string {
+  return format === "pcm"
+    ? `${AUDIO_FORMATS.pcm.mimeType}; rate=${sampleRate}; channels=1`
+    : AUDIO_FORMATS[format].mimeType;
+}
+
+/**
+ * Browsers can't decode headerless PCM, so it gets a WAV header (and its
+ * samples swapped back to little-endian) before playback. Other formats
+ * pass through as-is.
+ */
+export function playableAudio(bytes: Uint8Array, format: AudioFormat, sampleRate: number): Uint8Array {
+  if (format !== "pcm") return bytes;
+  const samples = new Uint8Array(bytes.byteLength - (bytes.byteLength % 2));
+  for (let i = 0; i < samples.byteLength; i += 2) {
+    samples[i] = bytes[i + 1];
+    samples[i + 1] = bytes[i];
+  }
+  return encodeWav({ sampleRate, channels: 1, bitsPerSample: 16 }, samples);
+}
+
+/** Saves audio to disk from the browser, as `<name>.<extension>` */
+export function downloadAudio(
+  audio: ArrayBuffer,
+  format: AudioFormat,
+  sampleRate: number,
+  name: string
+): void {
+  const blob = new Blob([audio], { type: audioMimeType(format, sampleRate) });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name}.${AUDIO_FORMATS[format].extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,204 @@
+import { NextResponse } from "next/server";
+import { AUDIO_FORMATS } from "@/lib/audio-formats";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { admitGeneration, convertAndSpeak } from "@/lib/generate";
+import { transcodeWav } from "@/lib/transcode";
+import { log } from "@/lib/logger";
+import { createZip, type ZipEntry } from "@/lib/zip";
+import type { RateLimitClient } from "@/lib/rate-limit";
+import {
+  MAX_BATCH_ROWS,
+  type BatchManifest,
+  type BatchManifestRow,
+  type ErrorResponse,
+} from "@/lib/schema";
+import {
+  failureResponse,
+  parseTextRequest,
+  textFieldsToBody,
+  toConvertResponse,
+  validationErrorResponse,
+} from "@/lib/api";
+
+// --- Many generations in one request, returned as a ZIP ---
+// Each row goes through the same pipeline as /api/generate, rate limit
+// included, so a batch costs what its rows would have cost one at a time.
+// Rows fail on their own and are reported in the manifest.
+
+/**
+ * Reads the rows of a batch: a JSON array of /api/generate bodies, or CSV
+ * (`Content-Type: text/csv`) whose header row names the same fields.
+ * Empty CSV cells are left out, so they fall back to the defaults.
+ */
+export async function readBatchRequest(
+  request: Request
+): Promise<unknown[] | NextResponse<ErrorResponse>> {
+  let rows: unknown;
+  try {
+    if (request.headers.get("content-type")?.includes("text/csv")) {
+      const [header = [], ...lines] = parseCsv(await request.text());
+      const fields = header.map((name) => name.trim());
+      rows = lines.map((cells) =>
+        textFieldsToBody(
+          cells.flatMap((value, i): [string, string][] =>
+            fields[i] && value !== "" ? [[fields[i], value]] : []
+          )
+        )
+      );
+    } else {
+      rows = await request.json();
+    }
+  } catch {
+    rows = null;
+  }
+
+  if (!Array.isArray(rows)) {
+    return validationErrorResponse([
+      {
+        field: "body",
+        code: "INVALID_JSON",
+        message: "Send a JSON array of rows, or CSV with a header row",
+      },
+    ]);
+  }
+  if (rows.length === 0 || rows.length > MAX_BATCH_ROWS) {
+    return validationErrorResponse([
+      {
+        field: "body",
+        code: "INVALID_PARAMETER",
+        message: `A batch takes 1 to ${MAX_BATCH_ROWS} rows, macha. This one has ${rows.length}.`,
+      },
+    ]);
+  }
+  return rows;
+}
+
+function batchConcurrency(): number {
+  const value = Number(process.env.BATCH_CONCURRENCY ?? 3);
+  return Number.isInteger(value) && value > 0 ? value : 3;
+}
+
+// The helpers shared with the other routes answer with ready-made responses
+async function errorBody(response: NextResponse): Promise<ErrorResponse> {
+  return response.json();
+}
+
+interface BatchRowResult {
+  manifest: BatchManifestRow;
+  file?: ZipEntry;
+}
+
+async function runRow(client: RateLimitClient, json: unknown, index: number): Promise<BatchRowResult> {
+  const row = index + 1;
+  const text = (json as { text?: unknown } | null)?.text;
+  const originalText = typeof text === "string" ? text : "";
+
+  const parsed = parseTextRequest(json);
+  if (!parsed.ok) {
+    return { manifest: { row, originalText, error: await errorBody(validationErrorResponse(parsed.errors)) } };
+  }
+
+  const body = parsed.value;
+  const { speaker, conversion, format } = body;
+  const fail = async (response: NextResponse): Promise<BatchRowResult> => ({
+    manifest: { row, speaker, originalText, error: await errorBody(response) },
+  });
+
+  const admitted = await admitGeneration(client, body);
+  if (admitted instanceof NextResponse) return fail(admitted);
+
+  let generated;
+  if (admitted.cached) {
+    generated = {
+      converted: toConvertResponse(body, { text: admitted.cached.bangaloreText, mode: conversion.mode }),
+      wav: admitted.cached.audio,
+    };
+  } else {
+    generated = await convertAndSpeak(body, admitted.cacheKey);
+    if (generated instanceof NextResponse) return fail(generated);
+  }
+
+  const { converted, wav } = generated;
+  let audio: Uint8Array;
+  try {
+    audio = transcodeWav(wav, format);
+  } catch (error) {
+    // An audio file that won't decode fails its row, not the whole batch
+    log.error("batch_row_failed", { row, error });
+    return fail(failureResponse(error, converted));
+  }
+
+  const name = `${String(row).padStart(3, "0")}-${speaker}.${AUDIO_FORMATS[format].extension}`;
+  return {
+    manifest: {
+      row,
+      file: name,
+      speaker,
+      originalText,
+      bangaloreText: converted.bangaloreText,
+      mode: converted.mode,
+      cached: Boolean(admitted.cached),
+    },
+    file: { name, data: audio },
+  };
+}
+
+const MANIFEST_CSV_COLUMNS = [
+  "row",
+  "file",
+  "speaker",
+  "original_text",
+  "converted_text",
+  "mode",
+  "cached",
+  "error_code",
+  "error",
+];
+
+function manifestCsv(rows: BatchManifestRow[]): string {
+  return toCsv([
+    MANIFEST_CSV_COLUMNS,
+    ...rows.map((r) => [
+      String(r.row),
+      r.file ?? "",
+      r.speaker ?? "",
+      r.originalText,
+      r.bangaloreText ?? "",
+      r.mode ?? "",
+      r.cached === undefined ? "" : String(r.cached),
+      r.error?.code ?? "",
+      r.error?.error ?? "",
+    ]),
+  ]);
+}
+
+/**
+ * Generates every row, BATCH_CONCURRENCY (default 3) at a time, and zips the
+ * audio as `001-<speaker>.wav`, `002-…` alongside `manifest.json` and
+ * `manifest.csv`.
+ */
+export async function runBatch(
+  client: RateLimitClient,
+  rows: unknown[]
+): Promise<{ zip: Uint8Array; manifest: BatchManifest }> {
+  const results = await mapWithConcurrency(rows, batchConcurrency(), (row, index) =>
+    runRow(client, row, index)
+  );
+
+  const manifestRows = results.map((r) => r.manifest);
+  const failed = manifestRows.filter((r) => r.error).length;
+  const manifest: BatchManifest = {
+    succeeded: manifestRows.length - failed,
+    failed,
+    rows: manifestRows,
+  };
+
+  const encoder = new TextEncoder();
+  const zip = createZip([
+    ...results.flatMap((r) => (r.file ? [r.file] : [])),
+    { name: "manifest.json", data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: "manifest.csv", data: encoder.encode(manifestCsv(manifestRows)) },
+  ]);
+  return { zip, manifest };
+}
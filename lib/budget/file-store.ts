@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { withFileLock } from "@/lib/file-lock";
+import type { BudgetPeriod, BudgetStore, PeriodKeys, StageSpend } from "./types";
+
+type FileState = Record<BudgetPeriod, { key: string; spend: StageSpend }>;
+
+function emptyState(): FileState {
+  return {
+    daily: { key: "", spend: { llm: 0, tts: 0 } },
+    monthly: { key: "", spend: { llm: 0, tts: 0 } },
+  };
+}
+
+async function readState(file: string): Promise<FileState> {
+  try {
+    return { ...emptyState(), ...(JSON.parse(await fs.readFile(file, "utf8")) as Partial<FileState>) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyState();
+    throw error;
+  }
+}
+
+function spendFor(state: FileState, keys: PeriodKeys): Record<BudgetPeriod, StageSpend> {
+  const spend = (period: BudgetPeriod) =>
+    state[period].key === keys[period] ? { ...state[period].spend } : { llm: 0, tts: 0 };
+  return { daily: spend("daily"), monthly: spend("monthly") };
+}
+
+/**
+ * JSON-file store shared by every process on the same machine/volume, so
+ * spend survives restarts as long as the file is on persistent storage.
+ */
+export function createFileBudgetStore(file: string): BudgetStore {
+  // Serialise writes within this process so they don't fight over the lock
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function addLocked(keys: PeriodKeys, stage: keyof StageSpend, amount: number) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    await withFileLock(file, async () => {
+      const current = spendFor(await readState(file), keys);
+      current.daily[stage] += amount;
+      current.monthly[stage] += amount;
+
+      const state: FileState = {
+        daily: { key: keys.daily, spend: current.daily },
+        monthly: { key: keys.monthly, spend: current.monthly },
+      };
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(state));
+      await fs.rename(tmp, file);
+    });
+  }
+
+  return {
+    add(keys, stage, amount) {
+      const result = queue.then(() => addLocked(keys, stage, amount));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+
+    // Writes go through a rename, so a read never sees half a file
+    async get(keys) {
+      return spendFor(await readState(file), keys);
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { log } from "@/lib/logger";
+import type { RateLimitTier } from "@/lib/rate-limit";
+import type { BudgetPeriodStatus, BudgetResponse } from "@/lib/schema";
+import { createFileBudgetStore } from "./file-store";
+import { createMemoryBudgetStore } from "./memory-store";
+import { getPrices } from "./prices";
+import { createRedisBudgetStore } from "./redis-store";
+import type { BudgetPeriod, BudgetStore, CostStage, PeriodKeys } from "./types";
+
+export { llmCost, ttsCost } from "./prices";
+export type { BudgetPeriod, BudgetStore, CostStage } from "./types";
+
+// --- Daily and monthly spending caps, in USD ---
+// Every LLM and TTS call adds its estimated cost (see ./prices) to the
+// current day and month. Requests that would call a paid upstream are
+// turned away once a cap is reached; cache hits are free, so they never are.
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+
+export interface BudgetCaps {
+  /** Past this, anonymous clients are turned away and API keys carry on */
+  soft?: number;
+  /** Past this, everyone is */
+  hard?: number;
+}
+
+export type BudgetVerdict =
+  | { allowed: true }
+  | { allowed: false; period: BudgetPeriod; retryAfter: number };
+
+let caps: Partial<Record<BudgetPeriod, BudgetCaps>> | null = null;
+let store: BudgetStore | null = null;
+
+// BUDGETS (JSON) sets the caps, e.g. {"daily":{"soft":4,"hard":5},"monthly":{"hard":100}};
+// without it spend is still tallied, just never capped
+function getBudgetCaps(): Partial<Record<BudgetPeriod, BudgetCaps>> {
+  if (!caps) {
+    caps = process.env.BUDGETS
+      ? (JSON.parse(process.env.BUDGETS) as Partial<Record<BudgetPeriod, BudgetCaps>>)
+      : {};
+  }
+  return caps;
+}
+
+/** Whether BUDGETS caps any period, i.e. spending is actually limited */
+export function hasBudgetCaps(): boolean {
+  const configured = getBudgetCaps();
+  return PERIODS.some((period) => configured[period]);
+}
+
+// BUDGET_STORE picks where spend is kept: "memory", "file" or "redis",
+// defaulting to whatever RATE_LIMIT_STORE uses
+function getBudgetStore(): BudgetStore {
+  if (store) return store;
+
+  const backend = process.env.BUDGET_STORE ?? process.env.RATE_LIMIT_STORE ?? "memory";
+  switch (backend) {
+    case "file":
+      store = createFileBudgetStore(process.env.BUDGET_FILE ?? ".data/budget.json");
+      break;
+    case "redis":
+      store = createRedisBudgetStore(process.env.REDIS_URL ?? "redis://127.0.0.1:6379");
+      break;
+    case "memory":
+      store = createMemoryBudgetStore();
+      break;
+    default:
+      throw new Error(`Unknown BUDGET_STORE "${backend}"`);
+  }
+
+  return store;
+}
+
+// Periods run on UTC days and months
+function periodKeys(now: Date): PeriodKeys {
+  const day = now.toISOString().slice(0, 10);
+  return { daily: day, monthly: day.slice(0, 7) };
+}
+
+function periodEnd(period: BudgetPeriod, now: Date): Date {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return period === "daily"
+    ? new Date(Date.UTC(year, month, now.getUTCDate() + 1))
+    : new Date(Date.UTC(year, month + 1, 1));
+}
+
+/** Adds an upstream call's cost to today's and this month's spend, best-effort */
+export async function recordSpend(stage: CostStage, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  try {
+    await getBudgetStore().add(periodKeys(new Date()), stage, amount);
+  } catch (error) {
+    log.error("budget_store_error", { error });
+  }
+}
+
+/**
+ * Checks today's and this month's spend against the caps for a client in
+ * `tier`. Soft caps only apply to anonymous clients, so the public
+ * playground runs dry before integrations with an API key do.
+ */
+export async function checkBudget(tier: RateLimitTier): Promise<BudgetVerdict> {
+  if (!hasBudgetCaps()) return { allowed: true };
+  const configured = getBudgetCaps();
+
+  const now = new Date();
+  let spend;
+  try {
+    spend = await getBudgetStore().get(periodKeys(now));
+  } catch (error) {
+    // Fail open, like the rate limit: a store outage shouldn't take the playground down
+    log.error("budget_store_error", { error });
+    return { allowed: true };
+  }
+
+  for (const period of PERIODS) {
+    const { soft, hard } = configured[period] ?? {};
+    const limit = tier === "anonymous" ? (soft ?? hard) : hard;
+    const spent = spend[period].llm + spend[period].tts;
+    if (limit === undefined || spent < limit) continue;
+
+    log.warn("budget_exhausted", { period, tier, spent, limit });
+    const retryAfter = Math.ceil((periodEnd(period, now).getTime() - now.getTime()) / 1000);
+    return { allowed: false, period, retryAfter };
+  }
+  return { allowed: true };
+}
+
+/** Spend, caps and prices for the admin view */
+export async function getBudgetStatus(): Promise<BudgetResponse> {
+  const now = new Date();
+  const keys = periodKeys(now);
+  const spend = await getBudgetStore().get(keys);
+
+  const periods = PERIODS.map((period): BudgetPeriodStatus => {
+    const { soft, hard } = getBudgetCaps()[period] ?? {};
+    const spent = spend[period].llm + spend[period].tts;
+    const cap = hard ?? soft;
+    return {
+      period,
+      key: keys[period],
+      spent,
+      byStage: spend[period],
+      soft,
+      hard,
+      remaining: cap === undefined ? undefined : Math.max(0, cap - spent),
+      state:
+        hard !== undefined && spent >= hard
+          ? "exhausted"
+          : soft !== undefined && spent >= soft
+            ? "soft_cap"
+            : "ok",
+      resetsAt: periodEnd(period, now).toISOString(),
+    };
+  });
+
+  return { currency: "USD", periods, prices: getPrices() };
+}
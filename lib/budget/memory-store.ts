@@ -0,0 +1,26 @@
+import type { BudgetPeriod, BudgetStore, StageSpend } from "./types";
+
+// In-memory store: resets on redeploy and is per-instance on serverless
+export function createMemoryBudgetStore(): BudgetStore {
+  const spend: Record<BudgetPeriod, { key: string; spend: StageSpend }> = {
+    daily: { key: "", spend: { llm: 0, tts: 0 } },
+    monthly: { key: "", spend: { llm: 0, tts: 0 } },
+  };
+
+  // A new key means a new period, which starts from nothing
+  function current(period: BudgetPeriod, key: string): StageSpend {
+    if (spend[period].key !== key) spend[period] = { key, spend: { llm: 0, tts: 0 } };
+    return spend[period].spend;
+  }
+
+  return {
+    async add(keys, stage, amount) {
+      current("daily", keys.daily)[stage] += amount;
+      current("monthly", keys.monthly)[stage] += amount;
+    },
+
+    async get(keys) {
+      return { daily: { ...current("daily", keys.daily) }, monthly: { ...current("monthly", keys.monthly) } };
+    },
+  };
+}
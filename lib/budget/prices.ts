@@ -0,0 +1,36 @@
+import type { CostPrices } from "@/lib/schema";
+
+// Defaults in USD; COST_PRICES (JSON) can override them or price more
+// providers, e.g. {"llm":{"anthropic":{"inputPerMillionTokens":3,"outputPerMillionTokens":15}}}
+// Providers with no price (mock, stub, a local model) cost nothing.
+const DEFAULT_PRICES: CostPrices = {
+  llm: { anthropic: { inputPerMillionTokens: 1, outputPerMillionTokens: 5 } }, // Claude Haiku 4.5
+  tts: { sarvam: { perTenThousandCharacters: 0.18 } }, // Bulbul, about ₹15
+};
+
+let prices: CostPrices | null = null;
+
+export function getPrices(): CostPrices {
+  if (!prices) {
+    const overrides = process.env.COST_PRICES
+      ? (JSON.parse(process.env.COST_PRICES) as Partial<CostPrices>)
+      : {};
+    prices = {
+      llm: { ...DEFAULT_PRICES.llm, ...overrides.llm },
+      tts: { ...DEFAULT_PRICES.tts, ...overrides.tts },
+    };
+  }
+  return prices;
+}
+
+export function llmCost(provider: string, inputTokens: number, outputTokens: number): number {
+  const price = getPrices().llm[provider];
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillionTokens + outputTokens * price.outputPerMillionTokens) / 1_000_000;
+}
+
+export function ttsCost(provider: string, characters: number): number {
+  const price = getPrices().tts[provider];
+  if (!price) return 0;
+  return (characters * price.perTenThousandCharacters) / 10_000;
+}
@@ -0,0 +1,38 @@
+import Redis from "ioredis";
+import type { BudgetPeriod, BudgetStore, StageSpend } from "./types";
+
+// Periods are kept a little past their end, then Redis drops them
+const PERIOD_TTL_S: Record<BudgetPeriod, number> = {
+  daily: 2 * 24 * 60 * 60,
+  monthly: 32 * 24 * 60 * 60,
+};
+
+/**
+ * Redis-backed store shared across instances: one hash of spend per stage
+ * for each period, bumped with HINCRBYFLOAT.
+ */
+export function createRedisBudgetStore(url: string, keyPrefix = "budget:"): BudgetStore {
+  const redis = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 2 });
+  const hashKey = (period: BudgetPeriod, key: string) => `${keyPrefix}${period}:${key}`;
+
+  async function read(period: BudgetPeriod, key: string): Promise<StageSpend> {
+    const hash = await redis.hgetall(hashKey(period, key));
+    return { llm: Number(hash.llm ?? 0), tts: Number(hash.tts ?? 0) };
+  }
+
+  return {
+    async add(keys, stage, amount) {
+      const pipeline = redis.multi();
+      for (const period of ["daily", "monthly"] as const) {
+        pipeline.hincrbyfloat(hashKey(period, keys[period]), stage, amount);
+        pipeline.expire(hashKey(period, keys[period]), PERIOD_TTL_S[period]);
+      }
+      await pipeline.exec();
+    },
+
+    async get(keys) {
+      const [daily, monthly] = await Promise.all([read("daily", keys.daily), read("monthly", keys.monthly)]);
+      return { daily, monthly };
+    },
+  };
+}
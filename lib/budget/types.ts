@@ -0,0 +1,20 @@
+export type BudgetPeriod = "daily" | "monthly";
+
+/** What the money went on */
+export type CostStage = "llm" | "tts";
+
+/** Spend in one period, per stage */
+export type StageSpend = Record<CostStage, number>;
+
+/** The current period's key for each budget, e.g. `{ daily: "2026-10-19", monthly: "2026-10" }` */
+export type PeriodKeys = Record<BudgetPeriod, string>;
+
+/**
+ * Where spend is tallied. `add` counts the amount towards every period in
+ * `keys`; spend under older keys can be dropped, since only the current
+ * periods are ever read.
+ */
+export interface BudgetStore {
+  add(keys: PeriodKeys, stage: CostStage, amount: number): Promise<void>;
+  get(keys: PeriodKeys): Promise<Record<BudgetPeriod, StageSpend>>;
+}
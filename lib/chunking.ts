@@ -0,0 +1,75 @@
+// --- Split long inputs into chunks the LLM and Bulbul can handle ---
+
+function splitSentences(paragraph: string): string[] {
+  return (
+    paragraph
+      .match(/[^.!?]*(?:[.!?]+["')\]]*|$)/g)
+      ?.map((s) => s.trim())
+      .filter(Boolean) ?? []
+  );
+}
+
+// Last resort for a single sentence longer than the chunk size
+function splitWords(sentence: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of sentence.split(/\s+/)) {
+    if (word.length > maxLength) {
+      if (current) pieces.push(current);
+      for (let i = 0; i < word.length; i += maxLength) {
+        pieces.push(word.slice(i, i + maxLength));
+      }
+      current = "";
+      continue;
+    }
+
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxLength) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Chunks of one text sent to an upstream at the same time
+export const CHUNK_CONCURRENCY = 3;
+
+/**
+ * Greedily packs paragraphs, then sentences, then words into chunks of at
+ * most `maxLength` characters. Short paragraphs share a chunk, with their
+ * "\n\n" break kept inside it, so many tiny paragraphs don't turn into as
+ * many upstream calls.
+ */
+export function splitIntoChunks(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    let separator = "\n\n";
+
+    for (const sentence of splitSentences(paragraph)) {
+      const pieces =
+        sentence.length > maxLength ? splitWords(sentence, maxLength) : [sentence];
+
+      for (const piece of pieces) {
+        const candidate = current ? `${current}${separator}${piece}` : piece;
+        if (candidate.length > maxLength) {
+          chunks.push(current);
+          current = piece;
+        } else {
+          current = candidate;
+        }
+        separator = " ";
+      }
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
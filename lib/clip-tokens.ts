@@ -0,0 +1,37 @@
+import type { ClipLink } from "@/lib/schema";
+
+// --- Delete tokens for clips made in this browser, kept in localStorage ---
+// The server only hands a token out once, so this is what lets the creator
+// delete their clip later from its permalink page.
+
+const STORAGE_KEY = "clip-delete-tokens";
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeTokens(tokens: Record<string, string>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } catch {
+    // Private mode or full storage: the clip just can't be deleted from here
+  }
+}
+
+export function rememberDeleteToken({ id, deleteToken }: ClipLink): void {
+  writeTokens({ ...readTokens(), [id]: deleteToken });
+}
+
+export function getDeleteToken(id: string): string | null {
+  return readTokens()[id] ?? null;
+}
+
+export function forgetDeleteToken(id: string): void {
+  const tokens = readTokens();
+  delete tokens[id];
+  writeTokens(tokens);
+}
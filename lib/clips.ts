@@ -0,0 +1,220 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { AUDIO_FORMATS, type AudioFormat } from "@/lib/audio-formats";
+import type { SpeechOptions } from "@/lib/tts-options";
+import { toMonoPcm16 } from "@/lib/transcode";
+import { computePeaks } from "@/lib/waveform";
+import type { ClipLink, ClipResponse, ConvertResponse } from "@/lib/schema";
+import { log } from "@/lib/logger";
+
+// --- Shareable generations, persisted on local disk under a short ID ---
+// Each clip is a `<id>.json` record plus its audio in the format it was
+// generated in. Clips expire after the retention period; only whoever holds
+// the delete token (handed out once, at creation) can remove one early.
+
+const ID_LENGTH = 10;
+const ID_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+// Waveform bars kept with each clip for its preview image
+const CLIP_PEAK_COUNT = 96;
+
+export interface ClipRecord extends ConvertResponse {
+  id: string;
+  speaker: string;
+  speech: SpeechOptions;
+  format: AudioFormat;
+  /** Waveform peaks (0–1), computed once from the WAV for preview images */
+  peaks: number[];
+  createdAt: number;
+  expiresAt: number;
+  /** sha256 of the delete token; the token itself is never stored */
+  deleteTokenHash: string;
+}
+
+export type NewClip = Omit<ClipRecord, "id" | "createdAt" | "expiresAt" | "deleteTokenHash">;
+
+export type DeleteClipResult = "deleted" | "not_found" | "forbidden";
+
+export interface ClipStore {
+  create(clip: NewClip, audio: Uint8Array): Promise<{ record: ClipRecord; deleteToken: string }>;
+  get(id: string): Promise<ClipRecord | null>;
+  getAudio(id: string): Promise<{ record: ClipRecord; audio: Uint8Array } | null>;
+  delete(id: string, deleteToken: string): Promise<DeleteClipResult>;
+}
+
+function generateId(): string {
+  // 62 doesn't divide 256, but the bias is far too small to matter here
+  return Array.from(randomBytes(ID_LENGTH), (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join("");
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function tokenMatches(token: string, hash: string): boolean {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(hash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function isClipId(id: string): boolean {
+  return id.length === ID_LENGTH && /^[0-9a-zA-Z]+$/.test(id);
+}
+
+/**
+ * Clips live for `retentionMs` from creation. Expired ones read as missing
+ * straight away and are swept off disk by mtime, on `create` but at most
+ * once every SWEEP_INTERVAL_MS.
+ */
+export function createDiskClipStore(dir: string, retentionMs: number): ClipStore {
+  const recordPath = (id: string) => path.join(dir, `${id}.json`);
+  const audioPath = (id: string, format: AudioFormat) =>
+    path.join(dir, `${id}.${AUDIO_FORMATS[format].extension}`);
+
+  let sweptAt = 0;
+
+  async function sweep(): Promise<void> {
+    if (Date.now() - sweptAt < SWEEP_INTERVAL_MS) return;
+    sweptAt = Date.now();
+
+    const cutoff = sweptAt - retentionMs;
+    for (const file of await fs.readdir(dir)) {
+      const stat = await fs.stat(path.join(dir, file)).catch(() => null);
+      if (stat && stat.mtimeMs < cutoff) {
+        await fs.rm(path.join(dir, file), { force: true });
+      }
+    }
+  }
+
+  async function get(id: string): Promise<ClipRecord | null> {
+    if (!isClipId(id)) return null;
+    try {
+      const record: ClipRecord = JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+      return record.expiresAt > Date.now() ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    async create(clip, audio) {
+      await fs.mkdir(dir, { recursive: true });
+      await sweep();
+
+      const deleteToken = randomBytes(24).toString("base64url");
+      const createdAt = Date.now();
+      const record: ClipRecord = {
+        ...clip,
+        id: generateId(),
+        createdAt,
+        expiresAt: createdAt + retentionMs,
+        deleteTokenHash: hashToken(deleteToken),
+      };
+
+      // Audio first: a record without its audio would be a broken link
+      await fs.writeFile(audioPath(record.id, record.format), audio);
+      await fs.writeFile(recordPath(record.id), JSON.stringify(record), { flag: "wx" });
+      return { record, deleteToken };
+    },
+
+    get,
+
+    async getAudio(id) {
+      const record = await get(id);
+      if (!record) return null;
+      try {
+        const audio = await fs.readFile(audioPath(id, record.format));
+        return { record, audio: new Uint8Array(audio) };
+      } catch {
+        return null;
+      }
+    },
+
+    async delete(id, deleteToken) {
+      const record = await get(id);
+      if (!record) return "not_found";
+      if (!tokenMatches(deleteToken, record.deleteTokenHash)) return "forbidden";
+
+      // Record first, so a half-finished delete never leaves a playable link
+      await fs.rm(recordPath(id), { force: true });
+      await fs.rm(audioPath(id, record.format), { force: true });
+      return "deleted";
+    },
+  };
+}
+
+let store: ClipStore | null | undefined;
+
+// CLIP_RETENTION_DAYS=0 turns permalinks off
+export function getClipStore(): ClipStore | null {
+  if (store !== undefined) return store;
+
+  const retentionDays = Number(process.env.CLIP_RETENTION_DAYS ?? 30);
+  store =
+    retentionDays > 0
+      ? createDiskClipStore(process.env.CLIPS_DIR ?? ".data/clips", retentionDays * DAY_MS)
+      : null;
+  return store;
+}
+
+export function clipPath(id: string): string {
+  return `/g/${id}`;
+}
+
+export function clipAudioPath(id: string): string {
+  return `/api/clips/${id}/audio`;
+}
+
+/**
+ * Best-effort write: a clip that can't be saved just means no permalink.
+ * `audio` is stored as-is; `wav` is the same clip before transcoding, for
+ * the waveform peaks.
+ */
+export async function saveClip(
+  clip: Omit<NewClip, "peaks">,
+  audio: Uint8Array,
+  wav: Uint8Array,
+  origin: string
+): Promise<ClipLink | undefined> {
+  try {
+    const { samples } = toMonoPcm16(wav);
+    const floats = Float32Array.from(samples, (sample) => sample / 32768);
+    const peaks = computePeaks(floats, CLIP_PEAK_COUNT).map((peak) => Math.round(peak * 1000) / 1000);
+
+    const created = await getClipStore()?.create({ ...clip, peaks }, audio);
+    if (!created) return undefined;
+
+    const { record, deleteToken } = created;
+    return {
+      id: record.id,
+      url: new URL(clipPath(record.id), origin).href,
+      audioUrl: new URL(clipAudioPath(record.id), origin).href,
+      deleteToken,
+      expiresAt: new Date(record.expiresAt).toISOString(),
+    };
+  } catch (error) {
+    log.error("clip_write_failed", { error });
+    return undefined;
+  }
+}
+
+/** Public view of a clip: listed field by field, so nothing secret leaks */
+export function toClipResponse(record: ClipRecord): ClipResponse {
+  return {
+    id: record.id,
+    dialect: record.dialect,
+    intensity: record.intensity,
+    mode: record.mode,
+    familyFriendly: record.familyFriendly,
+    originalText: record.originalText,
+    bangaloreText: record.bangaloreText,
+    speaker: record.speaker,
+    speech: record.speech,
+    format: record.format,
+    createdAt: new Date(record.createdAt).toISOString(),
+    expiresAt: new Date(record.expiresAt).toISOString(),
+    audioUrl: clipAudioPath(record.id),
+  };
+}
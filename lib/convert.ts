@@ -0,0 +1,198 @@
+import { CHUNK_CONCURRENCY, splitIntoChunks } from "@/lib/chunking";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { DialectProfile } from "@/lib/dialects";
+import { DEFAULT_INTENSITY, MAX_INTENSITY, type ConversionMode } from "@/lib/schema";
+import { getDialectConverter } from "@/lib/converters";
+import { convertWithRules, seedFromText } from "@/lib/rules-converter";
+import { callUpstream } from "@/lib/upstream";
+import { log } from "@/lib/logger";
+
+// --- Text → regional English dialect via the configured LLM ---
+// Long inputs are split into chunks and each chunk is converted separately.
+// When the LLM is unavailable or fails, the offline rule engine steps in
+// unless CONVERSION_FALLBACK=off, in which case the failure is passed on.
+
+export const CONVERSION_CHUNK_MAX_LENGTH = 500;
+
+export const FALLBACK_ENABLED = process.env.CONVERSION_FALLBACK !== "off";
+
+export interface ConversionOptions {
+  mode: ConversionMode;
+  seed?: number;
+  /** No fighting talk, swearing or crude slang */
+  familyFriendly: boolean;
+}
+
+export interface ConversionResult {
+  text: string;
+  /** "rules" when requested, or when the LLM fell through to them */
+  mode: ConversionMode;
+}
+
+// Slang intensity: how hard the prompt leans on the dialect rules
+const INTENSITY_GUIDANCE: Record<number, string> = {
+  1: "Light touch. Keep it mostly standard English that a client could read: use at most one or two signature expressions in total, no local-language words, and no fighting or crude slang.",
+  2: "Mild. Sprinkle in a few signature expressions and address terms, but keep most sentences plain. Use local-language words sparingly, if at all.",
+  3: "Balanced. Apply the rules naturally, the way a typical local would talk to friends.",
+  4: "Heavy. Most sentences should carry at least one dialect construction. Use address terms, emphasis words and local-language words freely.",
+  5: "Full chaos. Every sentence should be dripping with slang: stack several constructions per sentence, use as many local-language words as possible and go completely over the top.",
+};
+
+const FAMILY_FRIENDLY_GUIDANCE =
+  "Family-friendly mode: this will be heard by clients and kids. No fighting or threats (skip any belting, popping or beating up), no swearing, no crude or sexual slang. Keep the flavour through address terms, emphasis and local words instead.";
+
+// Applied per chunk, so the length guidance is per CONVERSION_CHUNK_MAX_LENGTH slice
+export function buildSystemPrompt(
+  dialect: DialectProfile,
+  intensity: number,
+  familyFriendly = false
+): string {
+  const rules = dialect.rules.map((rule) => `- ${rule}`).join("\n");
+  const examples = dialect.examples
+    .map(({ input, output }) => `Input: "${input}"\nOutput: ${output}`)
+    .join("\n\n");
+
+  return `You are a ${dialect.name} dialect converter. Convert the given text into how ${dialect.speakerDescription} would say it in English. Keep it to 2 small paragraphs maximum (about 3-4 lines total). Only output the converted text, nothing else. Do not add quotes around the output.
+
+Key rules of ${dialect.name}:
+${rules}
+
+Slang intensity: ${intensity} out of ${MAX_INTENSITY}. ${INTENSITY_GUIDANCE[intensity]} The examples below are at intensity ${DEFAULT_INTENSITY}; scale up or down from them.
+${familyFriendly ? `\n${FAMILY_FRIENDLY_GUIDANCE}\n` : ""}
+Example conversions for reference:
+
+${examples}`;
+}
+
+// Everything about conversion that changes its output, for cache keys
+export function conversionSettings(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  { mode, seed, familyFriendly }: ConversionOptions
+) {
+  if (mode === "rules") {
+    return {
+      mode,
+      intensity,
+      familyFriendly,
+      phrasebook: dialect.phrasebook,
+      seed: seed ?? seedFromText(text),
+    };
+  }
+  return {
+    mode,
+    converter: getDialectConverter().settings,
+    intensity,
+    prompt: buildSystemPrompt(dialect, intensity, familyFriendly),
+    chunkMaxLength: CONVERSION_CHUNK_MAX_LENGTH,
+  };
+}
+
+function llmConfigured(): boolean {
+  return getDialectConverter().requiredEnv.every((name) => process.env[name]);
+}
+
+async function convertWithLlm(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  familyFriendly: boolean
+): Promise<string> {
+  const converter = getDialectConverter();
+  const system = buildSystemPrompt(dialect, intensity, familyFriendly);
+  const chunks = splitIntoChunks(text, CONVERSION_CHUNK_MAX_LENGTH);
+  const converted = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+    const chunkText = await callUpstream("conversion", converter.settings.provider, (signal) =>
+      converter.convert({ system, prompt: chunk, signal })
+    );
+    return chunkText.trim();
+  });
+  return converted.join("\n\n");
+}
+
+export async function convertText(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  { mode, seed, familyFriendly }: ConversionOptions
+): Promise<ConversionResult> {
+  if (mode === "llm" && (llmConfigured() || !FALLBACK_ENABLED)) {
+    try {
+      return { text: await convertWithLlm(text, dialect, intensity, familyFriendly), mode: "llm" };
+    } catch (error) {
+      if (!FALLBACK_ENABLED) throw error;
+      log.warn("conversion_fell_back_to_rules", { error });
+    }
+  }
+  return { text: convertWithRules(text, dialect, intensity, { seed, familyFriendly }), mode: "rules" };
+}
+
+async function streamWithLlm(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  familyFriendly: boolean,
+  send: (event: string, data: unknown) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const converter = getDialectConverter();
+  const system = buildSystemPrompt(dialect, intensity, familyFriendly);
+  const chunks = splitIntoChunks(text, CONVERSION_CHUNK_MAX_LENGTH);
+  const converted: string[] = [];
+
+  for (const [i, chunk] of chunks.entries()) {
+    send("stage", { stage: "converting", chunk: i + 1, totalChunks: chunks.length });
+    if (i > 0) send("token", { text: "\n\n" });
+
+    // Tokens already sent can't be taken back, so only retry before the first
+    let chunkText = "";
+    await callUpstream(
+      "conversion",
+      converter.settings.provider,
+      async (signal) => {
+        for await (const delta of converter.stream({ system, prompt: chunk, signal })) {
+          chunkText += delta;
+          send("token", { text: delta });
+        }
+      },
+      { canRetry: () => chunkText === "", signal }
+    );
+    converted.push(chunkText.trim());
+  }
+
+  return converted.join("\n\n");
+}
+
+/**
+ * Same as `convertText`, but converts chunks in order and reports progress
+ * and each LLM token through `send` as it arrives. If the LLM fails part way
+ * a `reset` event tells the client to drop what it has streamed so far.
+ */
+export async function streamConvertText(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  { mode, seed, familyFriendly }: ConversionOptions,
+  send: (event: string, data: unknown) => void,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  if (mode === "llm" && (llmConfigured() || !FALLBACK_ENABLED)) {
+    try {
+      return {
+        text: await streamWithLlm(text, dialect, intensity, familyFriendly, send, signal),
+        mode: "llm",
+      };
+    } catch (error) {
+      // A client that's gone doesn't need the rules' version either
+      if (!FALLBACK_ENABLED || signal?.aborted) throw error;
+      log.warn("conversion_fell_back_to_rules", { error });
+      send("reset", {});
+    }
+  }
+
+  send("stage", { stage: "converting" });
+  const converted = convertWithRules(text, dialect, intensity, { seed, familyFriendly });
+  send("token", { text: converted });
+  return { text: converted, mode: "rules" };
+}
@@ -0,0 +1,53 @@
+import { generateText, streamText, type LanguageModel, type LanguageModelUsage } from "ai";
+import { recordLlmUsage } from "@/lib/usage";
+import type { ConverterSettings, DialectConverter } from "./types";
+
+// Shared by every provider the AI SDK can talk to
+export function createAiSdkConverter(
+  model: LanguageModel,
+  settings: ConverterSettings,
+  requiredEnv: string[]
+): DialectConverter {
+  // Some providers (local models especially) don't report usage
+  const recordUsage = ({ inputTokens = 0, outputTokens = 0 }: LanguageModelUsage) =>
+    recordLlmUsage({ provider: settings.provider, model: settings.model, inputTokens, outputTokens });
+
+  return {
+    settings,
+    requiredEnv,
+
+    // Retries are handled by lib/upstream, so the SDK's own are turned off
+    async convert({ system, prompt, signal }) {
+      const { text, usage } = await generateText({
+        model,
+        maxOutputTokens: settings.maxOutputTokens,
+        system,
+        prompt,
+        abortSignal: signal,
+        maxRetries: 0,
+      });
+      recordUsage(usage);
+      return text;
+    },
+
+    // textStream swallows provider errors and just ends, so read the full
+    // stream and rethrow them for the caller to handle
+    async *stream({ system, prompt, signal }) {
+      const result = streamText({
+        model,
+        maxOutputTokens: settings.maxOutputTokens,
+        system,
+        prompt,
+        abortSignal: signal,
+        maxRetries: 0,
+        onError: () => {},
+      });
+
+      for await (const part of result.fullStream) {
+        if (part.type === "text-delta") yield part.text;
+        else if (part.type === "finish") recordUsage(part.totalUsage);
+        else if (part.type === "error") throw part.error;
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { createAiSdkConverter } from "./ai-sdk";
+import type { DialectConverter } from "./types";
+
+export function createAnthropicConverter(
+  model: string,
+  maxOutputTokens: number
+): DialectConverter {
+  return createAiSdkConverter(
+    anthropic(model),
+    { provider: "anthropic", model, maxOutputTokens },
+    ["ANTHROPIC_API_KEY"]
+  );
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from "node:fs";
+import defaultFixtures from "@/data/fixtures/conversions.json";
+import { createAnthropicConverter } from "./anthropic";
+import { createMockConverter, type ConverterFixture } from "./mock";
+import { createOpenAICompatibleConverter } from "./openai-compatible";
+import type { DialectConverter } from "./types";
+
+export type {
+  ConversionRequest,
+  ConverterProvider,
+  ConverterSettings,
+  DialectConverter,
+} from "./types";
+
+const DEFAULT_MODELS: Record<string, string> = {
+  anthropic: "claude-haiku-4-5-20251001",
+  "openai-compatible": "llama3.1",
+};
+const DEFAULT_MAX_OUTPUT_TOKENS = 300;
+
+let converter: DialectConverter | null = null;
+
+// CONVERTER_PROVIDER picks the backend: "anthropic" (default),
+// "openai-compatible" or "mock"
+export function getDialectConverter(): DialectConverter {
+  if (converter) return converter;
+
+  const provider = process.env.CONVERTER_PROVIDER ?? "anthropic";
+  const model = process.env.CONVERTER_MODEL ?? DEFAULT_MODELS[provider];
+  const maxOutputTokens = Number(
+    process.env.CONVERTER_MAX_OUTPUT_TOKENS ?? DEFAULT_MAX_OUTPUT_TOKENS
+  );
+
+  switch (provider) {
+    case "anthropic":
+      converter = createAnthropicConverter(model, maxOutputTokens);
+      break;
+    case "openai-compatible":
+      converter = createOpenAICompatibleConverter(model, maxOutputTokens, {
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL ?? "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+      break;
+    case "mock": {
+      // CONVERTER_FIXTURES swaps the bundled data/fixtures/conversions.json
+      // for another file; one that can't be read is an error, not an echo
+      const file = process.env.CONVERTER_FIXTURES;
+      const fixtures: ConverterFixture[] = file
+        ? JSON.parse(readFileSync(file, "utf8"))
+        : defaultFixtures;
+      converter = createMockConverter(fixtures, file ?? "data/fixtures/conversions.json");
+      break;
+    }
+    default:
+      throw new Error(`Unknown CONVERTER_PROVIDER "${provider}"`);
+  }
+
+  return converter;
+}
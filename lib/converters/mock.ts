@@ -0,0 +1,30 @@
+import type { DialectConverter } from "./types";
+
+export interface ConverterFixture {
+  input: string;
+  output: string;
+}
+
+// Offline converter for local development and CI. Inputs found in the
+// fixtures get their canned output; anything else is echoed back. `source`
+// names where they came from, standing in for the model in cache keys.
+export function createMockConverter(fixtures: ConverterFixture[], source: string): DialectConverter {
+  const outputs = new Map(fixtures.map(({ input, output }) => [input.trim(), output]));
+
+  async function convert({ prompt }: { prompt: string }): Promise<string> {
+    return outputs.get(prompt.trim()) ?? prompt;
+  }
+
+  return {
+    settings: { provider: "mock", model: source, maxOutputTokens: 0 },
+    requiredEnv: [],
+    convert,
+
+    // Word by word, so streaming UIs behave like they would with a real model
+    async *stream(request) {
+      for (const word of (await convert(request)).split(/(\s+)/)) {
+        if (word) yield word;
+      }
+    },
+  };
+}
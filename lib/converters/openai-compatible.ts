@@ -0,0 +1,19 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createAiSdkConverter } from "./ai-sdk";
+import type { DialectConverter } from "./types";
+
+// Any server speaking the OpenAI chat completions API: Ollama, LM Studio,
+// vLLM, OpenRouter and friends. Local servers usually need no API key.
+export function createOpenAICompatibleConverter(
+  model: string,
+  maxOutputTokens: number,
+  { baseURL, apiKey }: { baseURL: string; apiKey?: string }
+): DialectConverter {
+  const provider = createOpenAICompatible({ name: "openai-compatible", baseURL, apiKey });
+
+  return createAiSdkConverter(
+    provider(model),
+    { provider: "openai-compatible", model, maxOutputTokens },
+    []
+  );
+}
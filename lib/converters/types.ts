@@ -0,0 +1,28 @@
+export type ConverterProvider = "anthropic" | "openai-compatible" | "mock";
+
+/** Everything about the converter that changes its output, for cache keys */
+export interface ConverterSettings {
+  provider: ConverterProvider;
+  model: string;
+  maxOutputTokens: number;
+}
+
+export interface ConversionRequest {
+  system: string;
+  prompt: string;
+  /** Aborted when the call times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns one chunk of text into dialect English. Prompt building and
+ * chunking stay in lib/convert, so implementations only talk to a model.
+ */
+export interface DialectConverter {
+  readonly settings: ConverterSettings;
+  /** Env vars that must be set before the converter can be used */
+  readonly requiredEnv: string[];
+  convert(request: ConversionRequest): Promise<string>;
+  /** Yields the converted text as it is generated */
+  stream(request: ConversionRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,52 @@
+import bangalore from "@/data/dialects/bangalore.json";
+import chennai from "@/data/dialects/chennai.json";
+import hyderabadi from "@/data/dialects/hyderabadi.json";
+import kerala from "@/data/dialects/kerala.json";
+import mumbai from "@/data/dialects/mumbai.json";
+
+// --- Dialect profiles, one JSON file per dialect in data/dialects ---
+
+/** Word lists the offline rule engine (lib/rules-converter) works from */
+export interface Phrasebook {
+  /** Words and phrases swapped in wherever they appear, e.g. simply → chumma */
+  replacements: Record<string, string>;
+  addressTerms: string[];
+  /** Words tacked onto the end of a statement, e.g. "only" */
+  emphasis: string[];
+  /** Sentence-end tags; ones ending in "?" turn the sentence into a question */
+  tags: string[];
+  openers: string[];
+  /** Added after a sentence that ends on a bare verb, e.g. "fell" → "fell off" */
+  verbParticle?: string;
+  /** Replacements skipped in family-friendly mode */
+  crude?: string[];
+}
+
+export interface DialectProfile {
+  id: string;
+  /** Display name, also used in the prompt, e.g. "Bangalore English" */
+  name: string;
+  /** Who the LLM should sound like, e.g. "a typical Bangalorean" */
+  speakerDescription: string;
+  defaultSpeaker: string;
+  /** Bulbul `target_language_code` used for text normalisation */
+  targetLanguageCode: string;
+  pace: number;
+  rules: string[];
+  examples: { input: string; output: string }[];
+  phrasebook: Phrasebook;
+}
+
+export const DEFAULT_DIALECT = "bangalore";
+
+const DIALECTS: DialectProfile[] = [bangalore, chennai, mumbai, hyderabadi, kerala];
+
+const DIALECTS_BY_ID = new Map(DIALECTS.map((d) => [d.id, d]));
+
+export function getDialect(id: string): DialectProfile | undefined {
+  return DIALECTS_BY_ID.get(id);
+}
+
+export function listDialects(): DialectProfile[] {
+  return DIALECTS;
+}
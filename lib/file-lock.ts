@@ -0,0 +1,36 @@
+import { promises as fs } from "fs";
+
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 5000;
+
+/**
+ * Cross-process mutex: whoever creates `<file>.lock` exclusively owns the
+ * file until `fn` settles. Locks left by a crashed process go stale after 5s.
+ */
+export async function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const lock = `${file}.lock`;
+
+  while (true) {
+    try {
+      const handle = await fs.open(lock, "wx");
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+      // A crashed process can leave its lock behind
+      const stat = await fs.stat(lock).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lock, { force: true });
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lock, { force: true });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { base64ToBytes } from "@/lib/wav";
+import { cacheKey, getAudioCache, saveToAudioCache, type CachedGeneration } from "@/lib/audio-cache";
+import { conversionSettings, convertText, type ConversionResult } from "@/lib/convert";
+import { speechSettings, speakText } from "@/lib/speak";
+import { moderateText } from "@/lib/moderation";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import type { RateLimitClient } from "@/lib/rate-limit";
+import type { ConversionMode, ConvertResponse } from "@/lib/schema";
+import {
+  contentBlockedResponse,
+  enforceRateLimit,
+  failureResponse,
+  requireEnv,
+  toConvertResponse,
+  type TextRequest,
+} from "@/lib/api";
+import { log } from "@/lib/logger";
+
+// --- The convert + speak pipeline behind /api/generate, /api/batch and /api/jobs ---
+// Every step that can refuse a request returns the response to send back,
+// so routes pass it straight through.
+
+// Everything that changes the output goes into the key, so edits to the
+// prompt, model or TTS settings naturally miss old entries. Clips are cached
+// as WAV and transcoded per request, so the output format stays out of it
+function generationCacheKey({
+  text,
+  speaker,
+  dialect,
+  intensity,
+  conversion,
+  speech,
+}: TextRequest): string {
+  return cacheKey({
+    kind: "generate",
+    text,
+    speaker,
+    conversion: conversionSettings(text, dialect, intensity, conversion),
+    speech: speechSettings(speech),
+  });
+}
+
+export interface AdmittedGeneration {
+  cacheKey: string;
+  cached: CachedGeneration | null;
+}
+
+/** Looks a request up in the audio cache, without charging anything */
+export async function findCachedGeneration(body: TextRequest): Promise<AdmittedGeneration> {
+  const key = generationCacheKey(body);
+  return { cacheKey: key, cached: (await getAudioCache()?.get(key)) ?? null };
+}
+
+/**
+ * Moderates the input, looks the request up in the cache and takes a
+ * rate-limit token. Input and, for cache misses, the synthesizer's env are
+ * checked before the rate limit, so rejected text or a misconfigured server
+ * doesn't use up quota. Cache hits cost nothing upstream, so they skip the
+ * daily cap.
+ */
+export async function admitGeneration(
+  client: RateLimitClient,
+  body: TextRequest
+): Promise<AdmittedGeneration | NextResponse> {
+  const blocked = contentBlockedResponse(
+    await moderateText(body.text, { stage: "input", familyFriendly: body.conversion.familyFriendly })
+  );
+  if (blocked) return blocked;
+
+  const found = await findCachedGeneration(body);
+  // A missing LLM key only means falling back to the rules
+  if (!found.cached) {
+    const missingKey = requireEnv(...getSpeechSynthesizer().requiredEnv);
+    if (missingKey) return missingKey;
+  }
+
+  const limited = await enforceRateLimit(client, { chargeDaily: !found.cached });
+  if (limited) return limited;
+
+  return found;
+}
+
+// Rule-engine fallbacks aren't cached under the LLM key, so the next
+// request gets another shot at the LLM
+export async function saveGenerationToCache(
+  key: string,
+  converted: ConversionResult,
+  wav: Uint8Array,
+  requestedMode: ConversionMode
+): Promise<void> {
+  if (converted.mode !== requestedMode) return;
+  await saveToAudioCache(key, { bangaloreText: converted.text, audio: wav });
+}
+
+/**
+ * Converts the text and voices it, caching the WAV under `key`. If speech
+ * fails after conversion, the error response carries the converted text.
+ * `onSynthesizing` runs between the two steps, for progress reporting.
+ */
+export async function convertAndSpeak(
+  body: TextRequest,
+  key: string,
+  onSynthesizing?: () => Promise<void>
+): Promise<{ converted: ConvertResponse; wav: Uint8Array } | NextResponse> {
+  const { text, speaker, dialect, intensity, conversion, speech } = body;
+
+  let partial: ConvertResponse | undefined;
+  try {
+    // Step 1: Convert the text to the chosen dialect with the configured LLM,
+    // or the rule engine if that's unavailable
+    const converted = await convertText(text, dialect, intensity, conversion);
+
+    // Nothing gets voiced (or sent back) without passing moderation
+    const outputBlocked = contentBlockedResponse(
+      await moderateText(converted.text, { stage: "output", familyFriendly: conversion.familyFriendly })
+    );
+    if (outputBlocked) return outputBlocked;
+    partial = toConvertResponse(body, converted);
+    await onSynthesizing?.();
+
+    // Step 2: Voice it with the configured synthesizer (Bulbul via Sarvam SDK by default)
+    const wav = base64ToBytes(await speakText(converted.text, speaker, speech));
+    await saveGenerationToCache(key, converted, wav, conversion.mode);
+    return { converted: partial, wav };
+  } catch (error) {
+    log.error("generation_failed", { error });
+    // If conversion got through, its text goes back so only audio needs a retry
+    return failureResponse(error, partial);
+  }
+}
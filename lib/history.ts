@@ -0,0 +1,102 @@
+import type { ClipLink, ConvertResponse } from "@/lib/schema";
+import type { AudioFormat } from "@/lib/audio-formats";
+import type { SpeechOptions } from "@/lib/tts-options";
+
+// --- Past generations kept in this browser's IndexedDB, audio included ---
+// Capped at HISTORY_LIMIT entries; the oldest go first once it's full.
+
+export const HISTORY_LIMIT = 25;
+
+const DB_NAME = "generation-history";
+const DB_VERSION = 1;
+const STORE = "entries";
+const BY_CREATED_AT = "createdAt";
+
+export interface HistoryEntry extends ConvertResponse {
+  id: string;
+  createdAt: number;
+  speaker: string;
+  speech: SpeechOptions;
+  format: AudioFormat;
+  audio: ArrayBuffer;
+  clip?: ClipLink;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id" | "createdAt">;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex(BY_CREATED_AT, "createdAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Newest first */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const entries = await settle<HistoryEntry[]>(
+    db.transaction(STORE).objectStore(STORE).index(BY_CREATED_AT).getAll()
+  );
+  return entries.reverse();
+}
+
+/** Saves an entry, evicting the oldest ones past HISTORY_LIMIT */
+export async function addToHistory(entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const saved: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  store.put(saved);
+
+  const excess = (await settle(store.count())) - HISTORY_LIMIT;
+  if (excess > 0) {
+    const oldest = await settle(store.index(BY_CREATED_AT).getAllKeys(null, excess));
+    for (const key of oldest) store.delete(key);
+  }
+
+  await done(tx);
+  return saved;
+}
+
+export async function deleteFromHistory(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(id);
+  await done(tx);
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await done(tx);
+}
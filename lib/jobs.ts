@@ -0,0 +1,362 @@
+import { createHmac, randomUUID } from "crypto";
+import { promises as dns } from "dns";
+import { promises as fs } from "fs";
+import { BlockList } from "net";
+import path from "path";
+import { NextResponse } from "next/server";
+import { AUDIO_FORMATS, type AudioFormat } from "@/lib/audio-formats";
+import { convertAndSpeak, findCachedGeneration } from "@/lib/generate";
+import { transcodeWav } from "@/lib/transcode";
+import { log, withLogContext } from "@/lib/logger";
+import { failureBody, parseTextRequest, toConvertResponse, validationErrorResponse } from "@/lib/api";
+import type {
+  ErrorResponse,
+  GenerateAudioMetadata,
+  JobResponse,
+  JobStatus,
+} from "@/lib/schema";
+
+// --- Generations that run in the background, tracked on local disk ---
+// POST /api/jobs admits a request (moderation, rate limit) and queues it here;
+// a worker in this process then runs it through the same pipeline as
+// /api/generate. Each job is a `<id>.json` record plus its audio once done,
+// so jobs that were queued or half-way through are picked up again after a
+// restart (see instrumentation.ts).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY ?? 2);
+const CALLBACK_ATTEMPTS = 3;
+const CALLBACK_TIMEOUT_MS = 10_000;
+
+export interface JobRecord {
+  id: string;
+  status: JobStatus;
+  /** The body as it was sent, validated again when the job runs */
+  request: unknown;
+  callbackUrl?: string;
+  /** Where the job was created from, for the absolute URLs it hands out */
+  origin: string;
+  /** ID of the request that created the job; its logs carry it too */
+  requestId?: string;
+  createdAt: number;
+  updatedAt: number;
+  result?: GenerateAudioMetadata;
+  error?: ErrorResponse;
+}
+
+export type JobUpdate = Partial<Pick<JobRecord, "status" | "result" | "error">>;
+
+export interface JobStore {
+  create(job: Pick<JobRecord, "request" | "callbackUrl" | "origin" | "requestId">): Promise<JobRecord>;
+  get(id: string): Promise<JobRecord | null>;
+  update(id: string, changes: JobUpdate): Promise<JobRecord | null>;
+  saveAudio(id: string, format: AudioFormat, audio: Uint8Array): Promise<void>;
+  /** A finished job's result and audio */
+  getAudio(id: string): Promise<{ result: GenerateAudioMetadata; audio: Uint8Array } | null>;
+  /** Jobs that haven't finished yet, oldest first */
+  listUnfinished(): Promise<JobRecord[]>;
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+/**
+ * Records are rewritten through a temp file and a rename, so a crash
+ * mid-write leaves the previous version rather than half a file. Jobs are
+ * swept off disk `retentionMs` after they were last touched, on `create` but
+ * at most once every SWEEP_INTERVAL_MS.
+ */
+export function createDiskJobStore(dir: string, retentionMs: number): JobStore {
+  const recordPath = (id: string) => path.join(dir, `${id}.json`);
+  const audioPath = (id: string, format: AudioFormat) =>
+    path.join(dir, `${id}.${AUDIO_FORMATS[format].extension}`);
+
+  async function write(record: JobRecord): Promise<void> {
+    const temp = `${recordPath(record.id)}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record));
+    await fs.rename(temp, recordPath(record.id));
+  }
+
+  let sweptAt = 0;
+
+  async function sweep(): Promise<void> {
+    if (Date.now() - sweptAt < SWEEP_INTERVAL_MS) return;
+    sweptAt = Date.now();
+
+    const cutoff = sweptAt - retentionMs;
+    for (const file of await fs.readdir(dir)) {
+      const stat = await fs.stat(path.join(dir, file)).catch(() => null);
+      if (stat && stat.mtimeMs < cutoff) {
+        await fs.rm(path.join(dir, file), { force: true });
+      }
+    }
+  }
+
+  async function get(id: string): Promise<JobRecord | null> {
+    if (!JOB_ID.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(recordPath(id), "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    async create(job) {
+      await fs.mkdir(dir, { recursive: true });
+      await sweep();
+
+      const now = Date.now();
+      const record: JobRecord = {
+        ...job,
+        id: randomUUID(),
+        status: "queued",
+        createdAt: now,
+        updatedAt: now,
+      };
+      await write(record);
+      return record;
+    },
+
+    get,
+
+    async update(id, changes) {
+      const record = await get(id);
+      if (!record) return null;
+
+      const updated = { ...record, ...changes, updatedAt: Date.now() };
+      await write(updated);
+      return updated;
+    },
+
+    async saveAudio(id, format, audio) {
+      await fs.writeFile(audioPath(id, format), audio);
+    },
+
+    async getAudio(id) {
+      const result = (await get(id))?.result;
+      if (!result) return null;
+      try {
+        const audio = await fs.readFile(audioPath(id, result.format));
+        return { result, audio: new Uint8Array(audio) };
+      } catch {
+        return null;
+      }
+    },
+
+    async listUnfinished() {
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      const records = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => get(file.slice(0, -".json".length)))
+      );
+      return records
+        .filter((record): record is JobRecord => record !== null && !isFinished(record.status))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+  };
+}
+
+let store: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!store) {
+    const retentionDays = Number(process.env.JOB_RETENTION_DAYS ?? 7);
+    store = createDiskJobStore(process.env.JOBS_DIR ?? ".data/jobs", retentionDays * DAY_MS);
+  }
+  return store;
+}
+
+export function jobStatusUrl(id: string, origin: string): string {
+  return new URL(`/api/jobs/${id}`, origin).href;
+}
+
+export function toJobResponse(record: JobRecord): JobResponse {
+  return {
+    id: record.id,
+    status: record.status,
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+    result: record.result && {
+      ...record.result,
+      audioUrl: new URL(`/api/jobs/${record.id}/audio`, record.origin).href,
+    },
+    error: record.error,
+  };
+}
+
+// --- Callbacks ---
+
+/**
+ * Signature sent as `X-Job-Signature: sha256=<hex>`: an HMAC-SHA256 over
+ * `<X-Job-Timestamp>.<raw body>` with JOB_CALLBACK_SECRET.
+ */
+export function signCallback(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Loopback, private, link-local (cloud metadata lives there), CGNAT,
+// multicast and reserved ranges: nothing a job should be posting to
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether every address `url`'s host resolves to is on the public internet.
+ * Checked when a job is submitted and again before each delivery, since DNS
+ * can change in between.
+ */
+export async function isPublicCallbackUrl(url: string): Promise<boolean> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  try {
+    const addresses = await dns.lookup(hostname, { all: true });
+    return addresses.every(
+      ({ address, family }) => !PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+    );
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Best-effort: retried a couple of times, then the status URL is all there is
+async function deliverCallback(record: JobRecord): Promise<void> {
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  if (!record.callbackUrl || !secret) return;
+  if (!(await isPublicCallbackUrl(record.callbackUrl))) {
+    log.warn("job_callback_blocked", { host: new URL(record.callbackUrl).host });
+    return;
+  }
+
+  const body = JSON.stringify(toJobResponse(record));
+  for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    try {
+      const response = await fetch(record.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Job-Id": record.id,
+          "X-Job-Timestamp": timestamp,
+          "X-Job-Signature": `sha256=${signCallback(secret, timestamp, body)}`,
+        },
+        body,
+        // A redirect could point anywhere, including back inside the network
+        redirect: "manual",
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (response.ok) return;
+      log.warn("job_callback_failed", { attempt, status: response.status });
+    } catch (error) {
+      log.warn("job_callback_failed", { attempt, error });
+    }
+    if (attempt < CALLBACK_ATTEMPTS) await sleep(1000 * 2 ** (attempt - 1));
+  }
+}
+
+// --- Worker ---
+
+const queue: Pick<JobRecord, "id" | "requestId">[] = [];
+let running = 0;
+
+async function finish(id: string, changes: JobUpdate): Promise<void> {
+  const record = await getJobStore().update(id, changes);
+  if (record) await deliverCallback(record);
+}
+
+async function runJob(id: string): Promise<void> {
+  const jobs = getJobStore();
+  const record = await jobs.get(id);
+  if (!record || isFinished(record.status)) return;
+
+  try {
+    // Validated again in case the server's dialects or voices changed since
+    const parsed = parseTextRequest(record.request);
+    if (!parsed.ok) {
+      const error: ErrorResponse = await validationErrorResponse(parsed.errors).json();
+      return finish(id, { status: "failed", error });
+    }
+
+    const body = parsed.value;
+    const { conversion, speech, format } = body;
+    await jobs.update(id, { status: "converting" });
+
+    const { cacheKey, cached } = await findCachedGeneration(body);
+    let generated;
+    if (cached) {
+      generated = {
+        converted: toConvertResponse(body, { text: cached.bangaloreText, mode: conversion.mode }),
+        wav: cached.audio,
+      };
+    } else {
+      generated = await convertAndSpeak(body, cacheKey, async () => {
+        await jobs.update(id, { status: "synthesizing" });
+      });
+      if (generated instanceof NextResponse) {
+        return finish(id, { status: "failed", error: await generated.json() });
+      }
+    }
+
+    const { converted, wav } = generated;
+    await jobs.saveAudio(id, format, transcodeWav(wav, format));
+    await finish(id, {
+      status: "done",
+      result: { ...converted, speech, format, cached: Boolean(cached) },
+    });
+  } catch (error) {
+    log.error("job_failed", { error });
+    await finish(id, { status: "failed", error: failureBody(error).body });
+  }
+}
+
+function drain(): void {
+  while (running < JOB_CONCURRENCY && queue.length > 0) {
+    const { id, requestId } = queue.shift()!;
+    running++;
+    withLogContext({ requestId, jobId: id }, () => runJob(id))
+      .catch((error) => log.error("job_failed", { jobId: id, error }))
+      .finally(() => {
+        running--;
+        drain();
+      });
+  }
+}
+
+/** Runs the job in the background, JOB_CONCURRENCY (default 2) at a time */
+export function enqueueJob(job: Pick<JobRecord, "id" | "requestId">): void {
+  queue.push(job);
+  drain();
+}
+
+/** Re-queues jobs a restart interrupted, oldest first */
+export async function resumeJobs(): Promise<void> {
+  for (const record of await getJobStore().listUnfinished()) {
+    enqueueJob(record);
+  }
+}
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// --- Structured JSON logs, one object per line ---
+// Fields set with `withLogContext` (the request ID, a job ID) are added to
+// every line logged inside it, however deep in the pipeline.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 99 };
+
+type LogFields = Record<string, unknown>;
+
+const context = new AsyncLocalStorage<LogFields>();
+
+// Read on every call so the CLI can quieten logs after its imports have run
+function minLevel(): number {
+  return LEVELS[(process.env.LOG_LEVEL ?? "info") as LogLevel] ?? LEVELS.info;
+}
+
+/** Errors don't survive JSON.stringify, so keep what's useful by hand */
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  const { code, stage, statusCode } = error as Error & Record<string, unknown>;
+  return {
+    name: error.name,
+    message: error.message,
+    code,
+    stage,
+    statusCode,
+    cause: error.cause instanceof Error ? error.cause.message : error.cause,
+    stack: error.stack,
+  };
+}
+
+function write(level: LogLevel, event: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < minLevel()) return;
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...context.getStore(),
+    ...fields,
+    ...("error" in fields ? { error: serializeError(fields.error) } : {}),
+  });
+  if (level === "warn" || level === "error") console.error(line);
+  else console.log(line);
+}
+
+export const log = {
+  debug: (event: string, fields?: LogFields) => write("debug", event, fields),
+  info: (event: string, fields?: LogFields) => write("info", event, fields),
+  warn: (event: string, fields?: LogFields) => write("warn", event, fields),
+  error: (event: string, fields?: LogFields) => write("error", event, fields),
+};
+
+/** Runs `fn` with `fields` added to every log line inside it, nested contexts included */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return context.getStore()?.requestId as string | undefined;
+}
@@ -0,0 +1,136 @@
+// --- In-process counters and histograms, served by /api/metrics ---
+// Rendered in the Prometheus text format. Values live in this process's
+// memory, so each instance is scraped on its own and restarts reset them.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// One series per distinct label set, keyed by its rendered labels
+function seriesKey(labels: Labels): string {
+  return formatLabels(Object.fromEntries(Object.entries(labels).sort()));
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+function counter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  });
+
+  return {
+    observe(labels, value) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  return registry.map((metric) => metric.render().join("\n")).join("\n\n") + "\n";
+}
+
+// --- What the app records ---
+
+const LATENCY_BUCKETS_S = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+const AUDIO_SIZE_BUCKETS = [16_384, 65_536, 262_144, 1_048_576, 4_194_304, 16_777_216];
+
+export const httpRequests = counter(
+  "bangalore_tts_http_requests_total",
+  "API requests by route, method and status."
+);
+
+export const httpRequestDuration = histogram(
+  "bangalore_tts_http_request_duration_seconds",
+  "Time until the response headers were sent (streams carry on after).",
+  LATENCY_BUCKETS_S
+);
+
+export const rateLimitDecisions = counter(
+  "bangalore_tts_rate_limit_decisions_total",
+  "Rate-limit checks by tier and result (allowed, client, daily, store_error)."
+);
+
+export const upstreamDuration = histogram(
+  "bangalore_tts_upstream_duration_seconds",
+  "LLM (conversion) and TTS calls by provider and outcome, retries included.",
+  LATENCY_BUCKETS_S
+);
+
+export const llmTokens = counter(
+  "bangalore_tts_llm_tokens_total",
+  "Tokens used by the conversion LLM, by direction (input, output)."
+);
+
+export const ttsCharacters = counter(
+  "bangalore_tts_tts_characters_total",
+  "Characters sent to the speech synthesizer."
+);
+
+export const ttsAudioBytes = histogram(
+  "bangalore_tts_tts_audio_bytes",
+  "Size of the WAV each synthesis produced.",
+  AUDIO_SIZE_BUCKETS
+);
+
+export const costUsd = counter(
+  "bangalore_tts_cost_usd_total",
+  "Estimated spend on the LLM and TTS, from COST_PRICES."
+);
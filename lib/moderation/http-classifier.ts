@@ -0,0 +1,30 @@
+import type { ModerationClassifier } from "./types";
+
+/**
+ * Classifier behind any HTTP endpoint that accepts
+ * `{ text, familyFriendly }` and answers `{ flagged, category? }`.
+ */
+export function createHttpClassifier(url: string, apiKey?: string): ModerationClassifier {
+  return {
+    async classify(text, { familyFriendly }) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ text, familyFriendly }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        throw new Error(`Moderation classifier returned ${response.status}`);
+      }
+
+      const { flagged, category } = (await response.json()) as {
+        flagged?: boolean;
+        category?: string;
+      };
+      return flagged ? (category ?? "classifier") : null;
+    },
+  };
+}
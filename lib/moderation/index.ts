@@ -0,0 +1,63 @@
+import { readFileSync } from "node:fs";
+import defaultPolicy from "@/data/moderation/policy.json";
+import { log } from "@/lib/logger";
+import { createHttpClassifier } from "./http-classifier";
+import { compilePolicy } from "./policy";
+import type {
+  ModerationClassifier,
+  ModerationPolicy,
+  ModerationStage,
+  ModerationVerdict,
+} from "./types";
+
+export type { ModerationStage, ModerationVerdict } from "./types";
+
+let checkPolicy: ReturnType<typeof compilePolicy> | null = null;
+let classifier: ModerationClassifier | null | undefined;
+
+// MODERATION_POLICY_FILE swaps the bundled data/moderation/policy.json for
+// a deployment's own
+function getPolicyChecker(): ReturnType<typeof compilePolicy> {
+  if (checkPolicy) return checkPolicy;
+
+  const file = process.env.MODERATION_POLICY_FILE;
+  const policy: ModerationPolicy = file
+    ? JSON.parse(readFileSync(file, "utf8"))
+    : defaultPolicy;
+  checkPolicy = compilePolicy(policy);
+  return checkPolicy;
+}
+
+// MODERATION_CLASSIFIER_URL turns on the classifier; unset means policy only
+function getClassifier(): ModerationClassifier | null {
+  if (classifier !== undefined) return classifier;
+
+  const url = process.env.MODERATION_CLASSIFIER_URL;
+  classifier = url ? createHttpClassifier(url, process.env.MODERATION_CLASSIFIER_KEY) : null;
+  return classifier;
+}
+
+/**
+ * Checks `text` against the local policy, then the classifier if one is
+ * configured. `stage` says whether it's the user's input or our output.
+ */
+export async function moderateText(
+  text: string,
+  { stage, familyFriendly }: { stage: ModerationStage; familyFriendly: boolean }
+): Promise<ModerationVerdict> {
+  const category = getPolicyChecker()(text, familyFriendly);
+  if (category) return { allowed: false, category, stage };
+
+  const activeClassifier = getClassifier();
+  if (!activeClassifier) return { allowed: true };
+
+  try {
+    const flagged = await activeClassifier.classify(text, { familyFriendly });
+    return flagged ? { allowed: false, category: flagged, stage } : { allowed: true };
+  } catch (error) {
+    // Fail open: the local policy has already run, and a classifier outage
+    // shouldn't take the whole playground down
+    log.error("moderation_classifier_failed", { error });
+    return { allowed: true };
+  }
+}
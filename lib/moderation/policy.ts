@@ -0,0 +1,30 @@
+import type { ModerationPolicy } from "./types";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles a policy once into per-category regexes. The returned function
+ * gives the first category `text` falls foul of, or null.
+ */
+export function compilePolicy(
+  policy: ModerationPolicy
+): (text: string, familyFriendly: boolean) => string | null {
+  const compiled = policy.categories.map(({ category, familyFriendlyOnly, terms, patterns }) => ({
+    category,
+    familyFriendlyOnly,
+    regexes: [
+      ...terms.map((term) => new RegExp(`\\b${escapeRegExp(term)}\\b`, "i")),
+      ...patterns.map((pattern) => new RegExp(pattern, "i")),
+    ],
+  }));
+
+  return (text, familyFriendly) => {
+    for (const { category, familyFriendlyOnly, regexes } of compiled) {
+      if (familyFriendlyOnly && !familyFriendly) continue;
+      if (regexes.some((regex) => regex.test(text))) return category;
+    }
+    return null;
+  };
+}
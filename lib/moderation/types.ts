@@ -0,0 +1,28 @@
+export type ModerationStage = "input" | "output";
+
+export type ModerationVerdict =
+  | { allowed: true }
+  | { allowed: false; category: string; stage: ModerationStage };
+
+export interface PolicyCategory {
+  /** Reported back to clients as the reason for a block */
+  category: string;
+  /** Only enforced when the request asks for family-friendly output */
+  familyFriendlyOnly: boolean;
+  /** Whole words or phrases, matched case-insensitively */
+  terms: string[];
+  /** Regular expressions, matched case-insensitively */
+  patterns: string[];
+}
+
+export interface ModerationPolicy {
+  categories: PolicyCategory[];
+}
+
+/**
+ * Optional second opinion after the local policy, e.g. a hosted moderation
+ * model. Returns the category it objects to, or null if the text is fine.
+ */
+export interface ModerationClassifier {
+  classify(text: string, options: { familyFriendly: boolean }): Promise<string | null>;
+}
@@ -0,0 +1,137 @@
+// --- Minimal Ogg container for a single mono Opus stream (RFC 7845) ---
+
+// Opus granule positions always count 48 kHz samples, whatever the input rate
+const GRANULE_RATE = 48000;
+// Encoder lookahead to trim from the start; libopus uses 312 at 48 kHz
+const PRE_SKIP = 312;
+// Packets per audio page: ~1s of 20ms frames, well under the 255-segment cap
+const PACKETS_PER_PAGE = 50;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+interface PageOptions {
+  serial: number;
+  sequence: number;
+  granule: number;
+  /** 0x02 beginning of stream, 0x04 end of stream */
+  flags: number;
+}
+
+function oggPage(packets: Uint8Array[], { serial, sequence, granule, flags }: PageOptions): Uint8Array {
+  // Each packet is laced as 255-byte segments plus a final shorter one
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.byteLength;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.byteLength, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.byteLength;
+  }
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function opusHead(inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  // Output gain and channel mapping family stay 0
+  return head;
+}
+
+function opusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode("dialect-converter");
+  const tags = new Uint8Array(8 + 4 + vendor.byteLength + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"));
+  view.setUint32(8, vendor.byteLength, true);
+  tags.set(vendor, 12);
+  // No user comments
+  return tags;
+}
+
+/**
+ * Wraps Opus packets (all `frameDuration` seconds long) into an Ogg Opus
+ * file. `sampleRate` is the original input rate, recorded for players.
+ */
+export function muxOggOpus(
+  packets: Uint8Array[],
+  { sampleRate, frameDuration, totalSamples }: {
+    sampleRate: number;
+    frameDuration: number;
+    /** Real length of the audio at `sampleRate`, so the padded tail is trimmed */
+    totalSamples: number;
+  }
+): Uint8Array {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  let sequence = 0;
+  const pages = [
+    oggPage([opusHead(sampleRate)], { serial, sequence: sequence++, granule: 0, flags: 0x02 }),
+    oggPage([opusTags()], { serial, sequence: sequence++, granule: 0, flags: 0 }),
+  ];
+
+  const samplesPerPacket = Math.round(frameDuration * GRANULE_RATE);
+  const finalGranule = PRE_SKIP + Math.round((totalSamples / sampleRate) * GRANULE_RATE);
+
+  for (let start = 0; start < packets.length; start += PACKETS_PER_PAGE) {
+    const pagePackets = packets.slice(start, start + PACKETS_PER_PAGE);
+    const isLast = start + PACKETS_PER_PAGE >= packets.length;
+    const granule = isLast
+      ? finalGranule
+      : PRE_SKIP + (start + pagePackets.length) * samplesPerPacket;
+    pages.push(
+      oggPage(pagePackets, { serial, sequence: sequence++, granule, flags: isLast ? 0x04 : 0 })
+    );
+  }
+
+  const out = new Uint8Array(pages.reduce((sum, page) => sum + page.byteLength, 0));
+  let offset = 0;
+  for (const page of pages) {
+    out.set(page, offset);
+    offset += page.byteLength;
+  }
+  return out;
+}
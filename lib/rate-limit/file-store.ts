@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { withFileLock } from "@/lib/file-lock";
+import { bucketIdleMs, msUntilToken, refill, type BucketState } from "./token-bucket";
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from "./types";
+
+interface FileState {
+  daily: { count: number; resetAt: number };
+  buckets: Record<string, BucketState & { idleMs: number }>;
+}
+
+async function readState(file: string): Promise<FileState> {
+  try {
+    const state = JSON.parse(await fs.readFile(file, "utf8")) as Partial<FileState>;
+    return {
+      daily: state.daily ?? { count: 0, resetAt: 0 },
+      buckets: state.buckets ?? {},
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { daily: { count: 0, resetAt: 0 }, buckets: {} };
+    }
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so readers never see a half-written file
+async function writeState(file: string, state: FileState): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(state));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * JSON-file store shared by every process on the same machine/volume.
+ * Survives redeploys as long as the file lives on persistent storage.
+ */
+export function createFileRateLimitStore(file: string): RateLimitStore {
+  // Serialise calls within this process so they don't fight over the lock
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function hitLocked(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    return withFileLock(file, async () => {
+      const now = Date.now();
+      const state = await readState(file);
+
+      for (const [bucketKey, entry] of Object.entries(state.buckets)) {
+        if (now - entry.updatedAt > entry.idleMs) delete state.buckets[bucketKey];
+      }
+
+      if (now > state.daily.resetAt) {
+        state.daily = { count: 0, resetAt: now + config.dayMs };
+      }
+
+      let result: RateLimitResult;
+      const bucket = refill(state.buckets[key], config.bucket, now);
+      const waitMs = msUntilToken(bucket, config.bucket);
+      const idleMs = bucketIdleMs(config.bucket);
+
+      if (config.chargeDaily && state.daily.count >= config.dailyCap) {
+        result = {
+          allowed: false,
+          retryAfter: Math.ceil((state.daily.resetAt - now) / 1000),
+          limitedBy: "daily",
+        };
+      } else if (waitMs > 0) {
+        state.buckets[key] = { ...bucket, idleMs };
+        result = {
+          allowed: false,
+          retryAfter: Math.ceil(waitMs / 1000),
+          limitedBy: "client",
+        };
+      } else {
+        state.buckets[key] = { tokens: bucket.tokens - 1, updatedAt: now, idleMs };
+        if (config.chargeDaily) state.daily.count++;
+        result = { allowed: true };
+      }
+
+      await writeState(file, state);
+      return result;
+    });
+  }
+
+  return {
+    hit(key, config) {
+      const result = queue.then(() => hitLocked(key, config));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
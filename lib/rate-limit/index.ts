@@ -0,0 +1,90 @@
+import { hasBudgetCaps } from "@/lib/budget";
+import { log } from "@/lib/logger";
+import { rateLimitDecisions } from "@/lib/metrics";
+import { createFileRateLimitStore } from "./file-store";
+import { createMemoryRateLimitStore } from "./memory-store";
+import { createRedisRateLimitStore } from "./redis-store";
+import { getTierConfig, type RateLimitClient } from "./tiers";
+import type { RateLimitResult, RateLimitStore } from "./types";
+
+export { identifyClient, type RateLimitClient } from "./tiers";
+export type { RateLimitResult, RateLimitStore, RateLimitTier } from "./types";
+
+// Every tier draws from the same daily count of paid requests
+const DEFAULT_DAILY_REQUEST_CAP = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let store: RateLimitStore | null = null;
+let dailyRequestCap: number | null | undefined;
+
+// DAILY_REQUEST_CAP sets the cap. Left unset it defaults to 2000 until
+// BUDGETS caps spending, after which the money budget is the daily cap.
+function getDailyRequestCap(): number | null {
+  if (dailyRequestCap !== undefined) return dailyRequestCap;
+
+  const value = process.env.DAILY_REQUEST_CAP;
+  if (value === undefined) {
+    dailyRequestCap = hasBudgetCaps() ? null : DEFAULT_DAILY_REQUEST_CAP;
+  } else if (/^\d+$/.test(value)) {
+    dailyRequestCap = Number(value);
+  } else {
+    throw new Error(`DAILY_REQUEST_CAP must be a whole number of requests, got "${value}"`);
+  }
+  return dailyRequestCap;
+}
+
+// RATE_LIMIT_STORE picks the backend: "memory" (default), "file" or "redis"
+function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  switch (process.env.RATE_LIMIT_STORE ?? "memory") {
+    case "file":
+      store = createFileRateLimitStore(
+        process.env.RATE_LIMIT_FILE ?? ".data/rate-limit.json"
+      );
+      break;
+    case "redis":
+      store = createRedisRateLimitStore(
+        process.env.REDIS_URL ?? "redis://127.0.0.1:6379"
+      );
+      break;
+    case "memory":
+      store = createMemoryRateLimitStore();
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${process.env.RATE_LIMIT_STORE}"`);
+  }
+
+  return store;
+}
+
+/**
+ * Takes a token from the client's bucket. Pass `chargeDaily: false` for
+ * requests that cost us nothing upstream (e.g. cache hits) so they don't eat
+ * into the shared daily request cap.
+ */
+export async function checkRateLimit(
+  client: RateLimitClient,
+  { chargeDaily = true }: { chargeDaily?: boolean } = {}
+): Promise<RateLimitResult> {
+  const dailyCap = getDailyRequestCap();
+  let result: RateLimitResult;
+  try {
+    result = await getRateLimitStore().hit(`${client.tier}:${client.id}`, {
+      bucket: getTierConfig(client.tier),
+      dailyCap: dailyCap ?? 0,
+      dayMs: DAY_MS,
+      chargeDaily: chargeDaily && dailyCap !== null,
+    });
+  } catch (error) {
+    // Fail open: a store outage shouldn't take the whole playground down
+    log.error("rate_limit_store_error", { error });
+    rateLimitDecisions.inc({ tier: client.tier, result: "store_error" });
+    return { allowed: true };
+  }
+
+  const { allowed, limitedBy, retryAfter } = result;
+  rateLimitDecisions.inc({ tier: client.tier, result: allowed ? "allowed" : (limitedBy ?? "client") });
+  log.info("rate_limit", { tier: client.tier, client: client.id, chargeDaily, allowed, limitedBy, retryAfter });
+  return result;
+}
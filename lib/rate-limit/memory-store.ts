@@ -0,0 +1,58 @@
+import { bucketIdleMs, msUntilToken, refill, type BucketState } from "./token-bucket";
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from "./types";
+
+// In-memory store: resets on redeploy and is per-instance on serverless
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState & { idleMs: number }>();
+  let dailyCount = 0;
+  let dailyResetAt = 0;
+
+  // Drop buckets that have refilled completely every 5 minutes
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of buckets) {
+      if (now - entry.updatedAt > entry.idleMs) buckets.delete(key);
+    }
+  }, 5 * 60 * 1000);
+  cleanup.unref?.();
+
+  return {
+    async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+      const now = Date.now();
+
+      // Reset daily counter
+      if (now > dailyResetAt) {
+        dailyCount = 0;
+        dailyResetAt = now + config.dayMs;
+      }
+
+      if (config.chargeDaily && dailyCount >= config.dailyCap) {
+        return {
+          allowed: false,
+          retryAfter: Math.ceil((dailyResetAt - now) / 1000),
+          limitedBy: "daily",
+        };
+      }
+
+      const state = refill(buckets.get(key), config.bucket, now);
+      const waitMs = msUntilToken(state, config.bucket);
+
+      if (waitMs > 0) {
+        buckets.set(key, { ...state, idleMs: bucketIdleMs(config.bucket) });
+        return {
+          allowed: false,
+          retryAfter: Math.ceil(waitMs / 1000),
+          limitedBy: "client",
+        };
+      }
+
+      buckets.set(key, {
+        tokens: state.tokens - 1,
+        updatedAt: now,
+        idleMs: bucketIdleMs(config.bucket),
+      });
+      if (config.chargeDaily) dailyCount++;
+      return { allowed: true };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import Redis from "ioredis";
+import { bucketIdleMs } from "./token-bucket";
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from "./types";
+
+// Runs server-side so the daily check, the bucket refill and both updates
+// happen atomically. Uses the Redis clock so instances never disagree.
+// Returns { allowed, retryAfterMs, limitedBy } where limitedBy 1 = daily, 2 = client.
+const HIT_SCRIPT = `
+local bucketKey = KEYS[1]
+local dailyKey = KEYS[2]
+local burst = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2]) / 60000
+local idleMs = tonumber(ARGV[3])
+local dailyCap = tonumber(ARGV[4])
+local dayMs = tonumber(ARGV[5])
+local chargeDaily = ARGV[6] == "1"
+
+local dailyCount = tonumber(redis.call("GET", dailyKey) or "0")
+if chargeDaily and dailyCount >= dailyCap then
+  return {0, redis.call("PTTL", dailyKey), 1}
+end
+
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local state = redis.call("HMGET", bucketKey, "tokens", "updatedAt")
+local tokens = tonumber(state[1]) or burst
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+if tokens < 1 then
+  redis.call("HSET", bucketKey, "tokens", tostring(tokens), "updatedAt", now)
+  redis.call("PEXPIRE", bucketKey, idleMs)
+  return {0, math.ceil((1 - tokens) / refillPerMs), 2}
+end
+
+redis.call("HSET", bucketKey, "tokens", tostring(tokens - 1), "updatedAt", now)
+redis.call("PEXPIRE", bucketKey, idleMs)
+if chargeDaily and redis.call("INCR", dailyKey) == 1 then
+  redis.call("PEXPIRE", dailyKey, dayMs)
+end
+return {1, 0, 0}
+`;
+
+/**
+ * Redis-backed store shared across instances. Works with anything that
+ * speaks the Redis protocol and supports EVAL (Redis, Valkey, KeyDB...).
+ */
+export function createRedisRateLimitStore(
+  url: string,
+  keyPrefix = "ratelimit:"
+): RateLimitStore {
+  const redis = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 2 });
+
+  return {
+    async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+      const [allowed, retryAfterMs, limitedBy] = (await redis.eval(
+        HIT_SCRIPT,
+        2,
+        `${keyPrefix}bucket:${key}`,
+        `${keyPrefix}daily`,
+        config.bucket.burst,
+        config.bucket.refillPerMinute,
+        bucketIdleMs(config.bucket),
+        config.dailyCap,
+        config.dayMs,
+        config.chargeDaily ? 1 : 0
+      )) as [number, number, number];
+
+      if (allowed === 1) return { allowed: true };
+
+      return {
+        allowed: false,
+        retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+        limitedBy: limitedBy === 1 ? "daily" : "client",
+      };
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { RateLimitTier, TokenBucketConfig } from "./types";
+
+// Defaults per tier; RATE_LIMIT_TIERS (JSON) can override any of them, e.g.
+// {"keyed":{"burst":30,"refillPerMinute":120}}
+const DEFAULT_TIERS: Record<RateLimitTier, TokenBucketConfig> = {
+  anonymous: { burst: 5, refillPerMinute: 10 }, // public playground, per IP
+  keyed: { burst: 20, refillPerMinute: 60 }, // integrations with an API key
+  internal: { burst: 100, refillPerMinute: 600 }, // our own tooling
+};
+
+const TIER_NAMES = Object.keys(DEFAULT_TIERS) as RateLimitTier[];
+
+export interface RateLimitClient {
+  tier: RateLimitTier;
+  /** Bucket identity: the IP for anonymous clients, the key's name otherwise */
+  id: string;
+}
+
+interface ApiKeyEntry {
+  name: string;
+  tier: RateLimitTier;
+}
+
+let tiers: Record<RateLimitTier, TokenBucketConfig> | null = null;
+let apiKeys: Map<string, ApiKeyEntry> | null = null;
+
+export function getTierConfig(tier: RateLimitTier): TokenBucketConfig {
+  if (!tiers) {
+    const overrides = process.env.RATE_LIMIT_TIERS
+      ? (JSON.parse(process.env.RATE_LIMIT_TIERS) as Partial<
+          Record<RateLimitTier, Partial<TokenBucketConfig>>
+        >)
+      : {};
+    tiers = { ...DEFAULT_TIERS };
+    for (const name of TIER_NAMES) {
+      tiers[name] = { ...DEFAULT_TIERS[name], ...overrides[name] };
+    }
+  }
+  return tiers[tier];
+}
+
+// API_KEYS is a comma-separated list of name:key:tier, e.g.
+// "scripts:sk_abc123:keyed,ops-bot:sk_def456:internal"
+function getApiKeys(): Map<string, ApiKeyEntry> {
+  if (apiKeys) return apiKeys;
+
+  apiKeys = new Map();
+  for (const entry of (process.env.API_KEYS ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [name, key, tier = "keyed"] = entry.trim().split(":");
+    if (!name || !key || !TIER_NAMES.includes(tier as RateLimitTier) || tier === "anonymous") {
+      throw new Error(`Invalid API_KEYS entry "${name}"`);
+    }
+    apiKeys.set(key, { name, tier: tier as RateLimitTier });
+  }
+  return apiKeys;
+}
+
+function getClientIp(request: Request): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+function getApiKey(request: Request): string | null {
+  const auth = request.headers.get("authorization");
+  if (auth?.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  return request.headers.get("x-api-key");
+}
+
+/**
+ * Works out which tier a request belongs to. Returns null when an API key
+ * was sent but isn't recognised, so callers can reject it rather than
+ * silently downgrading to the anonymous tier.
+ */
+export function identifyClient(request: Request): RateLimitClient | null {
+  const key = getApiKey(request);
+  if (!key) return { tier: "anonymous", id: getClientIp(request) };
+
+  const entry = getApiKeys().get(key);
+  return entry ? { tier: entry.tier, id: entry.name } : null;
+}
@@ -0,0 +1,33 @@
+import type { TokenBucketConfig } from "./types";
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function refillPerMs(bucket: TokenBucketConfig): number {
+  return bucket.refillPerMinute / 60_000;
+}
+
+// After this long untouched a bucket is full again, so its state can be dropped
+export function bucketIdleMs(bucket: TokenBucketConfig): number {
+  return Math.ceil(bucket.burst / refillPerMs(bucket));
+}
+
+export function refill(
+  state: BucketState | undefined,
+  bucket: TokenBucketConfig,
+  now: number
+): BucketState {
+  if (!state) return { tokens: bucket.burst, updatedAt: now };
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return {
+    tokens: Math.min(bucket.burst, state.tokens + elapsed * refillPerMs(bucket)),
+    updatedAt: now,
+  };
+}
+
+// Milliseconds until the bucket holds a whole token again
+export function msUntilToken(state: BucketState, bucket: TokenBucketConfig): number {
+  return state.tokens >= 1 ? 0 : Math.ceil((1 - state.tokens) / refillPerMs(bucket));
+}
@@ -0,0 +1,31 @@
+export type RateLimitTier = "anonymous" | "keyed" | "internal";
+
+export interface TokenBucketConfig {
+  /** Maximum tokens the bucket holds, i.e. the largest allowed burst */
+  burst: number;
+  /** Tokens added back per minute */
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  bucket: TokenBucketConfig;
+  dailyCap: number;
+  dayMs: number;
+  /** When false the request neither checks nor counts against the daily cap */
+  chargeDaily: boolean;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter?: number;
+  limitedBy?: "client" | "daily";
+}
+
+/**
+ * Backing store for rate-limit state. `hit` must check the daily global cap
+ * and take a token from the key's bucket as one atomic step, so concurrent
+ * requests (or instances) can't overshoot either limit.
+ */
+export interface RateLimitStore {
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+}
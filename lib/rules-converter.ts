@@ -0,0 +1,157 @@
+import type { DialectProfile, Phrasebook } from "@/lib/dialects";
+import { MAX_INTENSITY } from "@/lib/schema";
+
+// --- Offline text → dialect conversion from each dialect's phrasebook ---
+// No LLM involved: word swaps, address terms, emphasis and openers are
+// sprinkled in with a seeded PRNG, so the same seed gives the same output.
+
+// Verbs that commonly end a sentence and take a particle ("fell off")
+const TRAILING_VERBS = new Set([
+  "get", "got", "come", "came", "go", "went", "fall", "fell", "put", "hit",
+  "drown", "leave", "left", "run", "ran", "sleep", "slept", "eat", "ate",
+  "break", "broke", "die", "died", "slip", "finish", "start", "crash", "sit", "sat",
+]);
+
+type Random = () => number;
+
+// mulberry32: tiny, fast and good enough for picking slang
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, so unseeded conversions are still stable for the same text
+export function seedFromText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function pick<T>(items: T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matchCase(original: string, replacement: string): string {
+  return original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function applyReplacements(sentence: string, replacements: Record<string, string>): string {
+  // Longest phrases first, so "make a scene" wins over any single word in it
+  const phrases = Object.keys(replacements).sort((a, b) => b.length - a.length);
+  return phrases.reduce(
+    (text, phrase) =>
+      text.replace(new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "gi"), (match) =>
+        matchCase(match, replacements[phrase])
+      ),
+    sentence
+  );
+}
+
+function endsOnVerb(body: string): boolean {
+  const lastWord = body.split(/\s+/).pop()?.toLowerCase() ?? "";
+  return TRAILING_VERBS.has(lastWord) || (lastWord.length > 4 && lastWord.endsWith("ed"));
+}
+
+function lowercaseFirst(sentence: string): string {
+  // Leave "I", "I'm" and acronyms alone
+  if (/^I\b/.test(sentence) || /^[A-Z]{2}/.test(sentence)) return sentence;
+  return sentence[0].toLowerCase() + sentence.slice(1);
+}
+
+function convertSentence(
+  sentence: string,
+  book: Phrasebook,
+  strength: number,
+  random: Random,
+  isFirst: boolean
+): string {
+  const [, rawBody, rawEnd] = sentence.match(/^([\s\S]*?)([.!?]*)$/) ?? [sentence, sentence, ""];
+  let body = applyReplacements(rawBody.trim(), book.replacements);
+  let end = rawEnd || ".";
+  if (!body) return sentence;
+
+  const isQuestion = end.includes("?");
+
+  if (!isQuestion && book.verbParticle && endsOnVerb(body) && random() < strength + 0.2) {
+    body += ` ${book.verbParticle}`;
+  }
+
+  if (!isQuestion && book.emphasis.length > 0 && random() < 0.4 * strength) {
+    body += ` ${pick(book.emphasis, random)}`;
+  }
+
+  if (random() < 0.5 * strength) {
+    body += `, ${pick(book.addressTerms, random)}`;
+  } else if (book.tags.length > 0 && random() < 0.35 * strength) {
+    const tag = pick(book.tags, random);
+    if (tag.endsWith("?")) {
+      body += `, ${tag.slice(0, -1)}`;
+      end = "?";
+    } else {
+      body += ` ${tag}`;
+    }
+  }
+
+  if (isFirst && random() < 0.6 * strength) {
+    body = `${pick(book.openers, random)}, ${lowercaseFirst(body)}`;
+  }
+
+  return body + end;
+}
+
+function familyFriendlyPhrasebook(book: Phrasebook): Phrasebook {
+  const crude = new Set(book.crude ?? []);
+  return {
+    ...book,
+    replacements: Object.fromEntries(
+      Object.entries(book.replacements).filter(([phrase]) => !crude.has(phrase))
+    ),
+  };
+}
+
+/**
+ * Converts `text` using the dialect's phrasebook. Higher intensities add
+ * slang more often; `seed` defaults to a hash of the text. Family-friendly
+ * mode drops the phrasebook's `crude` replacements.
+ */
+export function convertWithRules(
+  text: string,
+  dialect: DialectProfile,
+  intensity: number,
+  {
+    seed = seedFromText(text),
+    familyFriendly = false,
+  }: { seed?: number; familyFriendly?: boolean } = {}
+): string {
+  const random = createRandom(seed);
+  const strength = intensity / MAX_INTENSITY;
+  const book = familyFriendly ? familyFriendlyPhrasebook(dialect.phrasebook) : dialect.phrasebook;
+
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      (paragraph.replace(/\s+/g, " ").match(/[^.!?]+[.!?]*/g) ?? [])
+        .map((sentence) => sentence.trim())
+        .filter(Boolean)
+        .map((sentence, i) =>
+          convertSentence(sentence, book, strength, random, i === 0)
+        )
+        .join(" ")
+    )
+    .join("\n\n");
+}
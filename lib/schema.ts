@@ -0,0 +1,460 @@
+import type { SpeechOptions, TtsModel } from "@/lib/tts-options";
+import type { GenerateStage } from "@/lib/sse";
+import { AUDIO_FORMAT_IDS, type AudioFormat } from "@/lib/audio-formats";
+
+// --- Request/response shapes shared by the API routes and the page ---
+// Kept free of server-only imports so the page can parse responses with it.
+
+export const MAX_INPUT_LENGTH = 5000;
+export const MAX_BATCH_ROWS = 50;
+
+export const MIN_INTENSITY = 1;
+export const MAX_INTENSITY = 5;
+export const DEFAULT_INTENSITY = 3;
+
+/** "llm" uses the configured converter and falls back to "rules" if it fails */
+export const CONVERSION_MODES = ["llm", "rules"] as const;
+export type ConversionMode = (typeof CONVERSION_MODES)[number];
+
+export type ErrorCode =
+  | "INVALID_JSON"
+  | "INVALID_PARAMETER"
+  | "INPUT_TOO_LONG"
+  | "UNKNOWN_DIALECT"
+  | "INVALID_API_KEY"
+  | "RATE_LIMITED"
+  | "CONTENT_BLOCKED"
+  | "CLIP_NOT_FOUND"
+  | "INVALID_DELETE_TOKEN"
+  | "JOB_NOT_FOUND"
+  | "FORBIDDEN"
+  | "BUDGET_EXHAUSTED"
+  | "SERVER_MISCONFIGURED"
+  | "CONVERSION_FAILED"
+  | "TTS_FAILED"
+  | "UPSTREAM_TIMEOUT"
+  | "SERVER_ERROR"
+  // Set by the client when the request never got a response
+  | "NETWORK_ERROR";
+
+export interface FieldError {
+  field: string;
+  code: ErrorCode;
+  message: string;
+  /** Accepted values, for fields that take one of a fixed set */
+  allowed?: string[];
+}
+
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+  retryAfter?: number;
+  /** First invalid field, kept for clients that only show one error */
+  field?: string;
+  allowed?: string[];
+  fields?: FieldError[];
+  /** Set when conversion worked but speech didn't, so only audio needs a retry */
+  partial?: ConvertResponse;
+  /** Moderation category behind a CONTENT_BLOCKED, e.g. "profanity" */
+  category?: string;
+  /** Same as the X-Request-Id header, to quote when reporting a problem */
+  requestId?: string;
+}
+
+/** Body accepted by /api/convert, /api/speak and /api/generate */
+export interface TextRequestBody {
+  text: string;
+  speaker?: string;
+  dialect?: string;
+  intensity?: number;
+  mode?: ConversionMode;
+  /** Seeds the rule engine; defaults to a hash of the text */
+  seed?: number;
+  /** Tones the prompt down and moderates more strictly */
+  familyFriendly?: boolean;
+  model?: string;
+  pace?: number;
+  sampleRate?: number;
+  languageCode?: string;
+  /** Encoding of `audioBase64`; defaults to "wav" */
+  format?: AudioFormat;
+}
+
+export interface ConvertResponse {
+  dialect: string;
+  intensity: number;
+  /** Mode that actually produced the text, "rules" after a fallback */
+  mode: ConversionMode;
+  familyFriendly: boolean;
+  originalText: string;
+  bangaloreText: string;
+}
+
+export interface SpeakResponse {
+  text: string;
+  speech: SpeechOptions;
+  format: AudioFormat;
+  audioBase64: string;
+  cached: boolean;
+}
+
+export interface GenerateResponse extends ConvertResponse {
+  speech: SpeechOptions;
+  format: AudioFormat;
+  audioBase64: string;
+  cached: boolean;
+  /** Permalink to this generation, unless clip storage is off or failed */
+  clip?: ClipLink;
+}
+
+/** Returned once, when the clip is created; the delete token isn't kept */
+export interface ClipLink {
+  id: string;
+  url: string;
+  /** The clip's audio, GET /api/clips/[id]/audio */
+  audioUrl: string;
+  /** Send as `X-Delete-Token` to DELETE /api/clips/[id] */
+  deleteToken: string;
+  expiresAt: string;
+}
+
+/** GET /api/clips/[id] */
+export interface ClipResponse extends ConvertResponse {
+  id: string;
+  speaker: string;
+  speech: SpeechOptions;
+  format: AudioFormat;
+  createdAt: string;
+  expiresAt: string;
+  audioUrl: string;
+}
+
+/** One row of a /api/batch manifest */
+export interface BatchManifestRow {
+  /** 1-based, in upload order */
+  row: number;
+  /** Name of the row's audio file in the ZIP; absent when the row failed */
+  file?: string;
+  speaker?: string;
+  originalText: string;
+  bangaloreText?: string;
+  mode?: ConversionMode;
+  cached?: boolean;
+  error?: ErrorResponse;
+}
+
+/** `manifest.json` in a /api/batch ZIP */
+export interface BatchManifest {
+  succeeded: number;
+  failed: number;
+  rows: BatchManifestRow[];
+}
+
+export const JOB_STATUSES = ["queued", "converting", "synthesizing", "done", "failed"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** POST /api/jobs (202) */
+export interface JobCreatedResponse {
+  id: string;
+  status: JobStatus;
+  /** Poll this for progress */
+  statusUrl: string;
+}
+
+/** GET /api/jobs/[id], and the body of the job's callback */
+export interface JobResponse {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Set once the job is done; the audio itself is at `audioUrl` */
+  result?: GenerateAudioMetadata & { audioUrl: string };
+  /** Set when the job failed */
+  error?: ErrorResponse;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  model?: string;
+  /** Whether every env var the provider needs is set */
+  configured: boolean;
+  /** Names of the env vars that aren't, never their values */
+  missing: string[];
+}
+
+/** GET /api/health; served with a 503 when the status is "unavailable" */
+export interface HealthResponse {
+  /** "degraded" when conversions fall back to the rule engine */
+  status: "ok" | "degraded" | "unavailable";
+  uptimeSeconds: number;
+  providers: {
+    tts: ProviderHealth;
+    llm: ProviderHealth & { fallback: boolean };
+  };
+}
+
+/** Prices per provider, in USD; providers without one cost nothing */
+export interface CostPrices {
+  llm: Record<string, { inputPerMillionTokens: number; outputPerMillionTokens: number }>;
+  tts: Record<string, { perTenThousandCharacters: number }>;
+}
+
+export interface BudgetPeriodStatus {
+  period: "daily" | "monthly";
+  /** The period in UTC, e.g. "2026-10-19" or "2026-10" */
+  key: string;
+  spent: number;
+  byStage: { llm: number; tts: number };
+  /** Past this, only API keys are served */
+  soft?: number;
+  /** Past this, nothing that costs money is */
+  hard?: number;
+  /** Left before the hard cap, or the soft one when that's the only cap */
+  remaining?: number;
+  state: "ok" | "soft_cap" | "exhausted";
+  resetsAt: string;
+}
+
+/** GET /api/admin/budget */
+export interface BudgetResponse {
+  currency: "USD";
+  periods: BudgetPeriodStatus[];
+  prices: CostPrices;
+}
+
+export interface DialectSummary {
+  id: string;
+  name: string;
+  defaultSpeaker: string;
+  pace: number;
+  languageCode: string;
+}
+
+/** GET /api/generate */
+export interface GenerateConfigResponse {
+  maxInputLength: number;
+  dialects: DialectSummary[];
+  /** Voices the server's synthesizer offers for each model */
+  voices: Record<TtsModel, readonly string[]>;
+}
+
+// The audio is only inlined when there's no clip to fetch it from
+export type GenerateStreamResult = GenerateAudioMetadata & { audioBase64?: string };
+
+export type GenerateStreamEvent =
+  | { event: "stage"; data: { stage: GenerateStage; chunk?: number; totalChunks?: number } }
+  | { event: "token"; data: { text: string } }
+  // Drop the tokens streamed so far: the LLM failed and the rules take over
+  | { event: "reset"; data: Record<string, never> }
+  | { event: "done"; data: GenerateStreamResult }
+  | { event: "error"; data: ErrorResponse };
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Type-checks a request body and reports every bad field at once. Checks
+ * that need server-side context (known dialects, per-model ranges and
+ * voices) happen afterwards in the route.
+ */
+export function validateTextRequestBody(body: unknown): ValidationResult<TextRequestBody> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      errors: [{ field: "body", code: "INVALID_JSON", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const invalid = (field: string, message: string) =>
+    errors.push({ field, code: "INVALID_PARAMETER", message });
+
+  const { text, intensity, mode, seed } = body;
+  if (typeof text !== "string" || text.trim().length === 0) {
+    invalid("text", "Text is required");
+  } else if (text.length > MAX_INPUT_LENGTH) {
+    errors.push({
+      field: "text",
+      code: "INPUT_TOO_LONG",
+      message: `Too long, bro! Keep it under ${MAX_INPUT_LENGTH} characters.`,
+    });
+  }
+
+  for (const field of ["speaker", "dialect", "model", "languageCode"] as const) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      invalid(field, `${field} must be a string`);
+    }
+  }
+
+  for (const field of ["pace", "sampleRate"] as const) {
+    if (body[field] !== undefined && (typeof body[field] !== "number" || !Number.isFinite(body[field]))) {
+      invalid(field, `${field} must be a number`);
+    }
+  }
+
+  if (
+    intensity !== undefined &&
+    (!Number.isInteger(intensity) ||
+      (intensity as number) < MIN_INTENSITY ||
+      (intensity as number) > MAX_INTENSITY)
+  ) {
+    invalid("intensity", `intensity must be a whole number from ${MIN_INTENSITY} to ${MAX_INTENSITY}`);
+  }
+
+  if (mode !== undefined && !CONVERSION_MODES.includes(mode as ConversionMode)) {
+    invalid("mode", `mode must be one of ${CONVERSION_MODES.join(", ")}`);
+  }
+
+  if (seed !== undefined && !Number.isSafeInteger(seed)) {
+    invalid("seed", "seed must be a whole number");
+  }
+
+  if (body.familyFriendly !== undefined && typeof body.familyFriendly !== "boolean") {
+    invalid("familyFriendly", "familyFriendly must be true or false");
+  }
+
+  if (body.format !== undefined && !AUDIO_FORMAT_IDS.includes(body.format as AudioFormat)) {
+    errors.push({
+      field: "format",
+      code: "INVALID_PARAMETER",
+      message: `format must be one of ${AUDIO_FORMAT_IDS.join(", ")}`,
+      allowed: AUDIO_FORMAT_IDS,
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: body as unknown as TextRequestBody };
+}
+
+/** Normalises any error body into an ErrorResponse, whatever the server sent */
+export function parseErrorResponse(data: unknown): ErrorResponse {
+  if (isRecord(data) && typeof data.error === "string") {
+    return {
+      ...(data as Partial<ErrorResponse>),
+      error: data.error,
+      code: typeof data.code === "string" ? (data.code as ErrorCode) : "SERVER_ERROR",
+    };
+  }
+  return { error: "Something went wrong", code: "SERVER_ERROR" };
+}
+
+export function isGenerateResponse(data: unknown): data is GenerateResponse {
+  return (
+    isRecord(data) &&
+    typeof data.dialect === "string" &&
+    typeof data.originalText === "string" &&
+    typeof data.bangaloreText === "string" &&
+    typeof data.audioBase64 === "string" &&
+    typeof data.cached === "boolean"
+  );
+}
+
+// --- Binary audio responses (Accept: audio/*) ---
+// The body is the audio itself; the settings and IDs the JSON response would
+// carry go in headers, plus /api/generate's converted text. Input text isn't
+// echoed back, since it's what was sent and can run to thousands of characters.
+
+export type SpeakAudioMetadata = Omit<SpeakResponse, "audioBase64">;
+export type GenerateAudioMetadata = Omit<GenerateResponse, "audioBase64">;
+
+/** What a binary response's headers carry */
+export type SpeakAudioHeaders = Omit<SpeakAudioMetadata, "text">;
+export type GenerateAudioHeaders = Omit<GenerateAudioMetadata, "originalText">;
+
+export const AUDIO_METADATA_HEADERS = {
+  format: "X-Audio-Format",
+  cached: "X-Cache",
+  model: "X-Speech-Model",
+  pace: "X-Speech-Pace",
+  sampleRate: "X-Speech-Sample-Rate",
+  languageCode: "X-Speech-Language-Code",
+  // /api/generate only
+  dialect: "X-Dialect",
+  intensity: "X-Intensity",
+  mode: "X-Conversion-Mode",
+  familyFriendly: "X-Family-Friendly",
+  convertedText: "X-Converted-Text",
+  clipId: "X-Clip-Id",
+  clipUrl: "X-Clip-Url",
+  clipAudioUrl: "X-Clip-Audio-Url",
+  clipDeleteToken: "X-Clip-Delete-Token",
+  clipExpiresAt: "X-Clip-Expires-At",
+} as const;
+
+const H = AUDIO_METADATA_HEADERS;
+
+// Percent-encodes only what a header value can't hold (non-ASCII, control
+// characters and "%" itself), so English text stays about its own size.
+// decodeURIComponent reverses it.
+function encodeHeaderText(text: string): string {
+  return text.toWellFormed().replace(/[^\x20-\x7e]|%/gu, (char) => encodeURIComponent(char));
+}
+
+export function audioMetadataHeaders(
+  metadata: SpeakAudioMetadata | GenerateAudioMetadata
+): Record<string, string> {
+  const { format, cached, speech } = metadata;
+  const headers: Record<string, string> = {
+    [H.format]: format,
+    [H.cached]: cached ? "HIT" : "MISS",
+    [H.model]: speech.model,
+    [H.pace]: String(speech.pace),
+    [H.sampleRate]: String(speech.sampleRate),
+    [H.languageCode]: speech.languageCode,
+  };
+
+  if ("dialect" in metadata) {
+    headers[H.dialect] = metadata.dialect;
+    headers[H.intensity] = String(metadata.intensity);
+    headers[H.mode] = metadata.mode;
+    headers[H.familyFriendly] = String(metadata.familyFriendly);
+    headers[H.convertedText] = encodeHeaderText(metadata.bangaloreText);
+    if (metadata.clip) {
+      headers[H.clipId] = metadata.clip.id;
+      headers[H.clipUrl] = metadata.clip.url;
+      headers[H.clipAudioUrl] = metadata.clip.audioUrl;
+      headers[H.clipDeleteToken] = metadata.clip.deleteToken;
+      headers[H.clipExpiresAt] = metadata.clip.expiresAt;
+    }
+  }
+  return headers;
+}
+
+export function parseSpeakAudioHeaders(headers: Headers): SpeakAudioHeaders {
+  return {
+    format: headers.get(H.format) as AudioFormat,
+    cached: headers.get(H.cached) === "HIT",
+    speech: {
+      model: headers.get(H.model) as SpeechOptions["model"],
+      pace: Number(headers.get(H.pace)),
+      sampleRate: Number(headers.get(H.sampleRate)),
+      languageCode: headers.get(H.languageCode) as SpeechOptions["languageCode"],
+    },
+  };
+}
+
+export function parseGenerateAudioHeaders(headers: Headers): GenerateAudioHeaders {
+  const clipId = headers.get(H.clipId);
+  return {
+    ...parseSpeakAudioHeaders(headers),
+    dialect: headers.get(H.dialect) ?? "",
+    intensity: Number(headers.get(H.intensity)),
+    mode: headers.get(H.mode) as ConversionMode,
+    familyFriendly: headers.get(H.familyFriendly) === "true",
+    bangaloreText: decodeURIComponent(headers.get(H.convertedText) ?? ""),
+    clip: clipId
+      ? {
+          id: clipId,
+          url: headers.get(H.clipUrl) ?? "",
+          audioUrl: headers.get(H.clipAudioUrl) ?? "",
+          deleteToken: headers.get(H.clipDeleteToken) ?? "",
+          expiresAt: headers.get(H.clipExpiresAt) ?? "",
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,54 @@
+import { CHUNK_CONCURRENCY, splitIntoChunks } from "@/lib/chunking";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { Speaker, SpeechOptions } from "@/lib/tts-options";
+import { getSpeechSynthesizer } from "@/lib/synthesizers";
+import { callUpstream } from "@/lib/upstream";
+import { recordTtsUsage } from "@/lib/usage";
+import { base64ToBytes, bytesToBase64, concatWavs } from "@/lib/wav";
+
+// --- Text → speech via the configured synthesizer (Sarvam Bulbul by default) ---
+// Text longer than one Bulbul request is voiced in chunks and the WAVs are
+// stitched together with a short pause in between.
+
+// Bulbul v3 accepts up to 2500 characters; stay well under it
+const SPEECH_CHUNK_MAX_LENGTH = 1500;
+const CHUNK_SILENCE_MS = Number(process.env.CHUNK_SILENCE_MS ?? 300);
+
+// Everything about synthesis that changes its output, for cache keys
+export function speechSettings(options: SpeechOptions) {
+  return {
+    provider: getSpeechSynthesizer().provider,
+    tts: options,
+    chunkMaxLength: SPEECH_CHUNK_MAX_LENGTH,
+    chunkSilenceMs: CHUNK_SILENCE_MS,
+  };
+}
+
+// Returns a single base64 WAV for the whole text; `signal` stops it part way
+export async function speakText(
+  text: string,
+  speaker: Speaker,
+  options: SpeechOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  const synthesizer = getSpeechSynthesizer();
+  const chunks = splitIntoChunks(text, SPEECH_CHUNK_MAX_LENGTH);
+  const clips = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk) =>
+    callUpstream(
+      "tts",
+      synthesizer.provider,
+      (attemptSignal) => synthesizer.synthesize(chunk, speaker, options, attemptSignal),
+      { signal }
+    )
+  );
+  const audio =
+    clips.length === 1 ? clips[0] : bytesToBase64(concatWavs(clips.map(base64ToBytes), CHUNK_SILENCE_MS));
+
+  recordTtsUsage({
+    provider: synthesizer.provider,
+    model: options.model,
+    characters: text.length,
+    audioBytes: Buffer.byteLength(audio, "base64"),
+  });
+  return audio;
+}
@@ -0,0 +1,69 @@
+// --- Server-Sent Events helpers shared by the route and the page ---
+
+export type GenerateStage = "converting" | "synthesizing" | "done";
+
+export interface SseEvent {
+  event: string;
+  data: unknown;
+}
+
+const encoder = new TextEncoder();
+
+export function encodeSseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function wantsEventStream(request: Request): boolean {
+  const accept = request.headers.get("accept") ?? "";
+  return (
+    accept.includes("text/event-stream") ||
+    new URL(request.url).searchParams.get("stream") === "1"
+  );
+}
+
+function parseSseBlock(block: string): SseEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join("\n")) };
+}
+
+// Reads an SSE response body and yields each event as it arrives
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const parsed = parseSseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    const trailing = parseSseBlock(buffer.trim());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,44 @@
+import { SPEAKERS_BY_MODEL, TTS_MODELS, isSpeakerForModel, type Speaker } from "@/lib/tts-options";
+import { createSarvamSynthesizer } from "./sarvam";
+import { createStubSynthesizer } from "./stub";
+import type { SpeechSynthesizer, VoiceCatalog } from "./types";
+
+export type { SpeechSynthesizer, SynthesizerProvider, VoiceCatalog } from "./types";
+
+let synthesizer: SpeechSynthesizer | null = null;
+
+/**
+ * Narrows every model's voice list to a comma-separated allowlist such as
+ * "sunny,ritu,anushka". Names a model doesn't support are ignored for it.
+ */
+function voiceCatalog(allowlist: string | undefined): VoiceCatalog {
+  if (!allowlist) return SPEAKERS_BY_MODEL;
+
+  const names = allowlist.split(",").map((name) => name.trim().toLowerCase());
+  return TTS_MODELS.reduce<VoiceCatalog>(
+    (catalog, model) => ({
+      ...catalog,
+      [model]: names.filter((name): name is Speaker => isSpeakerForModel(name, model)),
+    }),
+    SPEAKERS_BY_MODEL
+  );
+}
+
+// TTS_PROVIDER picks the backend: "sarvam" (default) or "stub". Each one's
+// voices can be narrowed with SARVAM_VOICES / STUB_VOICES.
+export function getSpeechSynthesizer(): SpeechSynthesizer {
+  if (synthesizer) return synthesizer;
+
+  switch (process.env.TTS_PROVIDER ?? "sarvam") {
+    case "sarvam":
+      synthesizer = createSarvamSynthesizer(voiceCatalog(process.env.SARVAM_VOICES));
+      break;
+    case "stub":
+      synthesizer = createStubSynthesizer(voiceCatalog(process.env.STUB_VOICES));
+      break;
+    default:
+      throw new Error(`Unknown TTS_PROVIDER "${process.env.TTS_PROVIDER}"`);
+  }
+
+  return synthesizer;
+}
@@ -0,0 +1,33 @@
+import { SarvamAIClient } from "sarvamai";
+import type { SpeechSynthesizer, VoiceCatalog } from "./types";
+
+export function createSarvamSynthesizer(voices: VoiceCatalog): SpeechSynthesizer {
+  let client: SarvamAIClient | null = null;
+
+  return {
+    provider: "sarvam",
+    voices,
+    requiredEnv: ["SARVAM_API_KEY"],
+
+    async synthesize(text, speaker, options, signal) {
+      client ??= new SarvamAIClient({
+        apiSubscriptionKey: process.env.SARVAM_API_KEY,
+      });
+
+      // Retries are handled by lib/upstream, so the SDK's own are turned off
+      const ttsData = await client.textToSpeech.convert(
+        {
+          text,
+          target_language_code: options.languageCode,
+          model: options.model,
+          pace: options.pace,
+          speech_sample_rate: options.sampleRate,
+          speaker,
+        },
+        { abortSignal: signal, maxRetries: 0 }
+      );
+
+      return ttsData.audios[0];
+    },
+  };
+}
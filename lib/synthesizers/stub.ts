@@ -0,0 +1,56 @@
+import { bytesToBase64, encodeWav } from "@/lib/wav";
+import type { SpeechSynthesizer, VoiceCatalog } from "./types";
+
+// Roughly how long one character takes to say at pace 1
+const MS_PER_CHAR = 60;
+const MAX_AMPLITUDE = 0.3 * 0x7fff;
+
+// Stable per-voice pitch so different speakers sound (a bit) different
+function pitchFor(speaker: string): number {
+  let hash = 0;
+  for (const char of speaker) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return 140 + (hash % 120);
+}
+
+/**
+ * Offline synthesizer for local development and CI. Produces a real 16-bit
+ * mono WAV with one soft tone burst per word, so its length follows the
+ * text and pace and the waveform has something to draw.
+ */
+export function createStubSynthesizer(voices: VoiceCatalog): SpeechSynthesizer {
+  return {
+    provider: "stub",
+    voices,
+    requiredEnv: [],
+
+    async synthesize(text, speaker, options) {
+      const { sampleRate, pace } = options;
+      const framesPerChar = (sampleRate * MS_PER_CHAR) / 1000 / pace;
+      const words = text.split(/\s+/).filter(Boolean);
+      const totalChars = words.reduce((sum, word) => sum + word.length + 1, 0);
+
+      const samples = new Int16Array(Math.max(1, Math.round(totalChars * framesPerChar)));
+      const pitch = pitchFor(speaker);
+      let offset = 0;
+
+      for (const word of words) {
+        const frames = Math.round(word.length * framesPerChar);
+        for (let i = 0; i < frames && offset + i < samples.length; i++) {
+          const envelope = Math.sin((Math.PI * i) / frames);
+          const t = (offset + i) / sampleRate;
+          samples[offset + i] = Math.round(
+            MAX_AMPLITUDE * envelope * Math.sin(2 * Math.PI * pitch * t)
+          );
+        }
+        // The trailing space stays silent
+        offset += frames + Math.round(framesPerChar);
+      }
+
+      const wav = encodeWav(
+        { sampleRate, channels: 1, bitsPerSample: 16 },
+        new Uint8Array(samples.buffer)
+      );
+      return bytesToBase64(wav);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { Speaker, SpeechOptions, TtsModel } from "@/lib/tts-options";
+
+export type SynthesizerProvider = "sarvam" | "stub";
+
+/** Voices a provider offers for each model */
+export type VoiceCatalog = Record<TtsModel, readonly Speaker[]>;
+
+/**
+ * Voices one request's worth of text. Chunking long inputs and stitching
+ * the clips together stays in lib/speak, so implementations only make sound.
+ */
+export interface SpeechSynthesizer {
+  readonly provider: SynthesizerProvider;
+  readonly voices: VoiceCatalog;
+  /** Env vars that must be set before the synthesizer can be used */
+  readonly requiredEnv: string[];
+  /** Returns a base64 PCM WAV; `signal` is aborted when the call times out */
+  synthesize(
+    text: string,
+    speaker: Speaker,
+    options: SpeechOptions,
+    signal?: AbortSignal
+  ): Promise<string>;
+}
@@ -0,0 +1,138 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import OpusScript from "opusscript";
+import { decodeWav } from "@/lib/wav";
+import { muxOggOpus } from "@/lib/ogg-opus";
+import type { AudioFormat } from "@/lib/audio-formats";
+
+// --- Re-encodes synthesised WAV clips into the requested output format ---
+// Synthesizers (and the audio cache) always deal in WAV; conversion happens
+// on the way out, so one cached clip serves every format.
+
+const MP3_KBPS = 64;
+const MP3_BLOCK_SAMPLES = 1152;
+
+const OPUS_BITRATE = 32_000;
+const OPUS_FRAME_SECONDS = 0.02;
+const OPUS_SAMPLE_RATES: readonly number[] = OpusScript.VALID_SAMPLING_RATES;
+
+// Mixes down to mono and normalises to 16-bit samples
+export function toMonoPcm16(wav: Uint8Array): { sampleRate: number; samples: Int16Array } {
+  const { sampleRate, channels, bitsPerSample, samples } = decodeWav(wav);
+  const view = new DataView(samples.buffer, samples.byteOffset, samples.byteLength);
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = Math.floor(samples.byteLength / (bytesPerSample * channels));
+
+  const read = (offset: number): number => {
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(offset) - 128) << 8;
+      case 16:
+        return view.getInt16(offset, true);
+      case 24:
+        return (view.getUint8(offset + 2) << 24 >> 16) | view.getUint8(offset + 1);
+      case 32:
+        return view.getInt32(offset, true) >> 16;
+      default:
+        throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+    }
+  };
+
+  const mono = new Int16Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read((frame * channels + channel) * bytesPerSample);
+    }
+    mono[frame] = Math.round(sum / channels);
+  }
+  return { sampleRate, samples: mono };
+}
+
+// Linear interpolation; plenty for speech heading into a lossy codec
+function resample(samples: Int16Array, from: number, to: number): Int16Array {
+  if (from === to) return samples;
+  const out = new Int16Array(Math.floor((samples.length * to) / from));
+  for (let i = 0; i < out.length; i++) {
+    const position = (i * from) / to;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    out[i] = Math.round(samples[index] + (next - samples[index]) * (position - index));
+  }
+  return out;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function encodePcm(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length * 2);
+  const view = new DataView(out.buffer);
+  samples.forEach((sample, i) => view.setInt16(i * 2, sample, false));
+  return out;
+}
+
+function encodeMp3(samples: Int16Array, sampleRate: number): Uint8Array {
+  const encoder = new Mp3Encoder(1, sampleRate, MP3_KBPS);
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < samples.length; i += MP3_BLOCK_SAMPLES) {
+    parts.push(encoder.encodeBuffer(samples.subarray(i, i + MP3_BLOCK_SAMPLES)));
+  }
+  parts.push(encoder.flush());
+  return concatBytes(parts);
+}
+
+function encodeOggOpus(samples: Int16Array, sampleRate: number): Uint8Array {
+  // Opus only runs at a handful of rates; anything else goes up to 48 kHz
+  const rate = OPUS_SAMPLE_RATES.includes(sampleRate) ? sampleRate : 48000;
+  const input = resample(samples, sampleRate, rate);
+  const frameSize = Math.round(rate * OPUS_FRAME_SECONDS);
+
+  const encoder = new OpusScript(
+    rate as ConstructorParameters<typeof OpusScript>[0],
+    1,
+    OpusScript.Application.VOIP
+  );
+  try {
+    encoder.setBitrate(OPUS_BITRATE);
+    const packets: Uint8Array[] = [];
+    // The last frame is zero-padded; the final granule position trims it off
+    for (let i = 0; i === 0 || i < input.length; i += frameSize) {
+      const frame = new Int16Array(frameSize);
+      frame.set(input.subarray(i, i + frameSize));
+      const pcm = Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength);
+      packets.push(new Uint8Array(encoder.encode(pcm, frameSize)));
+    }
+    return muxOggOpus(packets, {
+      sampleRate,
+      frameDuration: OPUS_FRAME_SECONDS,
+      totalSamples: samples.length,
+    });
+  } finally {
+    encoder.delete();
+  }
+}
+
+/**
+ * Converts a WAV clip into `format`. WAV itself is returned untouched; every
+ * other format comes out mono 16-bit at the clip's sample rate.
+ */
+export function transcodeWav(wav: Uint8Array, format: AudioFormat): Uint8Array {
+  if (format === "wav") return wav;
+
+  const { sampleRate, samples } = toMonoPcm16(wav);
+  switch (format) {
+    case "pcm":
+      return encodePcm(samples);
+    case "mp3":
+      return encodeMp3(samples, sampleRate);
+    case "ogg":
+      return encodeOggOpus(samples, sampleRate);
+  }
+}
@@ -0,0 +1,122 @@
+// --- Bulbul synthesis options: allowed values, defaults and validation ---
+// Kept free of server-only imports so the page can use the same lists.
+
+export const TTS_MODELS = ["bulbul:v3", "bulbul:v2"] as const;
+export type TtsModel = (typeof TTS_MODELS)[number];
+export const DEFAULT_TTS_MODEL: TtsModel = "bulbul:v3";
+
+// Voices each model supports (lowercase, as the Sarvam API expects them)
+export const SPEAKERS_BY_MODEL = {
+  "bulbul:v3": [
+    "shubh", "aditya", "ritu", "priya", "neha", "rahul", "pooja", "rohan",
+    "simran", "kavya", "amit", "dev", "ishita", "shreya", "ratan", "varun",
+    "manan", "sumit", "roopa", "kabir", "aayan", "ashutosh", "advait",
+    "amelia", "sophia", "anand", "tanya", "tarun", "sunny", "mani", "gokul",
+    "vijay", "shruti", "suhani", "mohit", "kavitha", "rehan", "soham", "rupali",
+  ],
+  "bulbul:v2": ["anushka", "manisha", "vidya", "arya", "abhilash", "karun", "hitesh"],
+} as const satisfies Record<TtsModel, readonly string[]>;
+
+export type Speaker = (typeof SPEAKERS_BY_MODEL)[TtsModel][number];
+
+export function isSpeakerForModel(speaker: string, model: TtsModel): speaker is Speaker {
+  return (SPEAKERS_BY_MODEL[model] as readonly string[]).includes(speaker);
+}
+
+export const SAMPLE_RATES = [8000, 16000, 22050, 24000, 32000, 44100, 48000] as const;
+export const DEFAULT_SAMPLE_RATE = 48000;
+// Rates above this are only available on bulbul:v3
+const MAX_V2_SAMPLE_RATE = 24000;
+
+export const PACE_RANGES: Record<TtsModel, { min: number; max: number }> = {
+  "bulbul:v3": { min: 0.5, max: 2.0 },
+  "bulbul:v2": { min: 0.3, max: 3.0 },
+};
+
+export const LANGUAGE_CODES = [
+  "en-IN",
+  "hi-IN",
+  "kn-IN",
+  "ta-IN",
+  "te-IN",
+  "ml-IN",
+  "mr-IN",
+  "bn-IN",
+  "gu-IN",
+  "pa-IN",
+  "od-IN",
+] as const;
+export type LanguageCode = (typeof LANGUAGE_CODES)[number];
+
+export interface SpeechOptions {
+  model: TtsModel;
+  pace: number;
+  sampleRate: number;
+  languageCode: LanguageCode;
+}
+
+export interface SpeechOptionsInput {
+  model?: unknown;
+  pace?: unknown;
+  sampleRate?: unknown;
+  languageCode?: unknown;
+}
+
+export type SpeechOptionsResult =
+  | { ok: true; options: SpeechOptions }
+  | { ok: false; field: keyof SpeechOptionsInput; error: string };
+
+/**
+ * Fills unset fields from `defaults` (the dialect's pace and language code)
+ * and checks every value against what the chosen Bulbul model accepts.
+ */
+export function resolveSpeechOptions(
+  input: SpeechOptionsInput,
+  defaults: { pace: number; languageCode: string }
+): SpeechOptionsResult {
+  const model = input.model ?? DEFAULT_TTS_MODEL;
+  if (!TTS_MODELS.includes(model as TtsModel)) {
+    return { ok: false, field: "model", error: `model must be one of ${TTS_MODELS.join(", ")}` };
+  }
+
+  const { min, max } = PACE_RANGES[model as TtsModel];
+  const pace = input.pace ?? defaults.pace;
+  if (typeof pace !== "number" || !Number.isFinite(pace) || pace < min || pace > max) {
+    return { ok: false, field: "pace", error: `pace must be between ${min} and ${max} for ${model}` };
+  }
+
+  const sampleRate = input.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  if (!SAMPLE_RATES.includes(sampleRate as (typeof SAMPLE_RATES)[number])) {
+    return {
+      ok: false,
+      field: "sampleRate",
+      error: `sampleRate must be one of ${SAMPLE_RATES.join(", ")}`,
+    };
+  }
+  if (model === "bulbul:v2" && (sampleRate as number) > MAX_V2_SAMPLE_RATE) {
+    return {
+      ok: false,
+      field: "sampleRate",
+      error: `sampleRate above ${MAX_V2_SAMPLE_RATE} needs bulbul:v3`,
+    };
+  }
+
+  const languageCode = input.languageCode ?? defaults.languageCode;
+  if (!LANGUAGE_CODES.includes(languageCode as LanguageCode)) {
+    return {
+      ok: false,
+      field: "languageCode",
+      error: `languageCode must be one of ${LANGUAGE_CODES.join(", ")}`,
+    };
+  }
+
+  return {
+    ok: true,
+    options: {
+      model: model as TtsModel,
+      pace,
+      sampleRate: sampleRate as number,
+      languageCode: languageCode as LanguageCode,
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { log } from "@/lib/logger";
+import { upstreamDuration } from "@/lib/metrics";
+import type { ErrorCode } from "@/lib/schema";
+
+// --- Timeouts, retries and circuit breakers for LLM and TTS calls ---
+// Every upstream call runs as: circuit breaker → retries with backoff →
+// per-attempt timeout. Failures come out as an UpstreamError whose `code`
+// tells the routes which error to return.
+
+export type UpstreamStage = "conversion" | "tts";
+
+export interface UpstreamError extends Error {
+  code: Extract<ErrorCode, "CONVERSION_FAILED" | "TTS_FAILED" | "UPSTREAM_TIMEOUT">;
+  stage: UpstreamStage;
+}
+
+const STAGE_FAILED_CODES = {
+  conversion: "CONVERSION_FAILED",
+  tts: "TTS_FAILED",
+} as const;
+const UPSTREAM_CODES: readonly string[] = [...Object.values(STAGE_FAILED_CODES), "UPSTREAM_TIMEOUT"];
+
+const STAGE_TIMEOUTS_MS: Record<UpstreamStage, number> = {
+  conversion: Number(process.env.CONVERSION_TIMEOUT_MS ?? 20_000),
+  tts: Number(process.env.TTS_TIMEOUT_MS ?? 30_000),
+};
+
+const RETRIES = Number(process.env.UPSTREAM_RETRIES ?? 2);
+const RETRY_BASE_MS = 250;
+const RETRY_MAX_MS = 4_000;
+
+// Consecutive failures before a provider is cut off, and for how long
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+function upstreamError(
+  stage: UpstreamStage,
+  code: UpstreamError["code"],
+  message: string,
+  cause?: unknown
+): UpstreamError {
+  return Object.assign(new Error(message, { cause }), { code, stage });
+}
+
+export function isUpstreamError(error: unknown): error is UpstreamError {
+  return (
+    error instanceof Error &&
+    "stage" in error &&
+    "code" in error &&
+    UPSTREAM_CODES.includes(error.code as string)
+  );
+}
+
+// Timeouts, network errors (fetch throws TypeError), 408, 429 and 5xx are
+// worth another go
+function isTransient(error: unknown): boolean {
+  if (isUpstreamError(error)) return error.code === "UPSTREAM_TIMEOUT";
+  if (typeof error !== "object" || error === null) return false;
+
+  const { isRetryable, statusCode, status } = error as {
+    isRetryable?: boolean;
+    statusCode?: number;
+    status?: number;
+  };
+  if (typeof isRetryable === "boolean") return isRetryable;
+
+  const code = statusCode ?? status;
+  if (code === undefined) return error instanceof TypeError;
+  return code === 408 || code === 429 || code >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with full jitter
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+// The attempt is aborted with the reason it stopped, a timeout or `cancel`,
+// and fails with that reason without waiting for `run` to notice
+async function withTimeout<T>(
+  stage: UpstreamStage,
+  ms: number,
+  run: (signal: AbortSignal) => Promise<T>,
+  cancel?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const stopped = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+
+  const timer = setTimeout(
+    () => controller.abort(upstreamError(stage, "UPSTREAM_TIMEOUT", `${stage} timed out after ${ms}ms`)),
+    ms
+  );
+  const onCancel = () => controller.abort(cancel?.reason);
+  cancel?.addEventListener("abort", onCancel, { once: true });
+
+  try {
+    return await Promise.race([run(controller.signal), stopped]);
+  } finally {
+    clearTimeout(timer);
+    cancel?.removeEventListener("abort", onCancel);
+  }
+}
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+function getBreaker(provider: string): BreakerState {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = { failures: 0, openUntil: 0 };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+type UpstreamOutcome = "ok" | "error" | "timeout" | "breaker_open" | "cancelled";
+
+// One log line and one latency sample per call, however many attempts it took
+function reportCall(
+  stage: UpstreamStage,
+  provider: string,
+  started: number,
+  outcome: UpstreamOutcome,
+  attempts: number,
+  error?: unknown
+): void {
+  const durationMs = Math.round(performance.now() - started);
+  upstreamDuration.observe({ stage, provider, outcome }, durationMs / 1000);
+
+  const fields = { stage, provider, outcome, attempts, durationMs };
+  if (outcome === "ok") log.info("upstream_call", fields);
+  else log.warn("upstream_call", { ...fields, error });
+}
+
+/**
+ * Runs `run` against `provider` with a timeout per attempt, retrying
+ * transient failures. `canRetry` lets streaming callers stop retrying once
+ * output has already been sent, and `signal` stops the call when whoever
+ * asked for it has gone away. While a provider's breaker is open, calls
+ * fail straight away; after the cooldown calls go through again, and until
+ * one succeeds a single failure re-opens it.
+ */
+export async function callUpstream<T>(
+  stage: UpstreamStage,
+  provider: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  { canRetry = () => true, signal }: { canRetry?: () => boolean; signal?: AbortSignal } = {}
+): Promise<T> {
+  const started = performance.now();
+  const breaker = getBreaker(provider);
+  const now = Date.now();
+  if (breaker.openUntil > now) {
+    const error = upstreamError(
+      stage,
+      STAGE_FAILED_CODES[stage],
+      `${provider} is unavailable, retrying in ${Math.ceil((breaker.openUntil - now) / 1000)}s`
+    );
+    reportCall(stage, provider, started, "breaker_open", 0, error);
+    throw error;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      const result = await withTimeout(stage, STAGE_TIMEOUTS_MS[stage], run, signal);
+      breaker.failures = 0;
+      reportCall(stage, provider, started, "ok", attempt + 1);
+      return result;
+    } catch (error) {
+      // Nobody is waiting for the result, and it's no fault of the provider's
+      if (signal?.aborted) {
+        reportCall(stage, provider, started, "cancelled", attempt + 1);
+        throw error;
+      }
+      if (attempt < RETRIES && isTransient(error) && canRetry()) {
+        await sleep(backoffMs(attempt));
+        continue;
+      }
+
+      breaker.failures++;
+      if (breaker.failures >= BREAKER_FAILURE_THRESHOLD) {
+        breaker.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+      }
+
+      const failure = isUpstreamError(error)
+        ? error
+        : upstreamError(stage, STAGE_FAILED_CODES[stage], `${provider} ${stage} failed`, error);
+      const outcome = failure.code === "UPSTREAM_TIMEOUT" ? "timeout" : "error";
+      reportCall(stage, provider, started, outcome, attempt + 1, failure);
+      throw failure;
+    }
+  }
+}
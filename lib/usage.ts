@@ -0,0 +1,42 @@
+import { llmCost, recordSpend, ttsCost } from "@/lib/budget";
+import { log } from "@/lib/logger";
+import { costUsd, llmTokens, ttsAudioBytes, ttsCharacters } from "@/lib/metrics";
+
+// --- What each call to a paid upstream used, and roughly what it cost ---
+// Logged against the request that made it, added to the metrics and counted
+// towards the budget.
+
+export interface LlmUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TtsUsage {
+  provider: string;
+  model: string;
+  characters: number;
+  /** Size of the WAV that came back */
+  audioBytes: number;
+}
+
+export function recordLlmUsage(usage: LlmUsage): void {
+  const { provider, model, inputTokens, outputTokens } = usage;
+  const cost = llmCost(provider, inputTokens, outputTokens);
+  llmTokens.inc({ provider, model, direction: "input" }, inputTokens);
+  llmTokens.inc({ provider, model, direction: "output" }, outputTokens);
+  costUsd.inc({ stage: "llm", provider }, cost);
+  log.info("llm_usage", { ...usage, costUsd: cost });
+  void recordSpend("llm", cost);
+}
+
+export function recordTtsUsage(usage: TtsUsage): void {
+  const { provider, model, characters, audioBytes } = usage;
+  const cost = ttsCost(provider, characters);
+  ttsCharacters.inc({ provider, model }, characters);
+  ttsAudioBytes.observe({ provider, model }, audioBytes);
+  costUsd.inc({ stage: "tts", provider }, cost);
+  log.info("tts_usage", { ...usage, costUsd: cost });
+  void recordSpend("tts", cost);
+}
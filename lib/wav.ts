@@ -0,0 +1,149 @@
+// --- Minimal PCM WAV decoding/encoding for stitching Bulbul clips ---
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface DecodedWav extends WavFormat {
+  samples: Uint8Array;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+export function decodeWav(bytes: Uint8Array): DecodedWav {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let format: WavFormat | null = null;
+  let samples: Uint8Array | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.byteLength) {
+    const tag = readTag(view, offset);
+    // Streamed WAVs sometimes carry a placeholder size; clamp to what we have
+    const size = Math.min(view.getUint32(offset + 4, true), bytes.byteLength - offset - 8);
+    const body = offset + 8;
+
+    if (tag === "fmt ") {
+      const audioFormat = view.getUint16(body, true);
+      if (audioFormat !== 1) {
+        throw new Error(`Unsupported WAV encoding ${audioFormat}, expected PCM`);
+      }
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (tag === "data") {
+      samples = bytes.subarray(body, body + size);
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (!format || !samples) {
+    throw new Error("WAV file is missing its fmt or data chunk");
+  }
+
+  return { ...format, samples };
+}
+
+export function encodeWav(format: WavFormat, samples: Uint8Array): Uint8Array {
+  const { sampleRate, channels, bitsPerSample } = format;
+  const blockAlign = channels * (bitsPerSample / 8);
+  const out = new Uint8Array(44 + samples.byteLength);
+  const view = new DataView(out.buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + samples.byteLength, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, "data");
+  view.setUint32(40, samples.byteLength, true);
+  out.set(samples, 44);
+
+  return out;
+}
+
+function silence(format: WavFormat, ms: number): Uint8Array {
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+  const frames = Math.round((format.sampleRate * ms) / 1000);
+  const bytes = new Uint8Array(frames * blockAlign);
+  // 8-bit PCM is unsigned, so its midpoint is 128 rather than 0
+  if (format.bitsPerSample === 8) bytes.fill(128);
+  return bytes;
+}
+
+/**
+ * Concatenates PCM WAV files into one, inserting `silenceMs` of silence
+ * between clips. All inputs must share sample rate, channels and bit depth.
+ */
+export function concatWavs(clips: Uint8Array[], silenceMs: number): Uint8Array {
+  if (clips.length === 0) throw new Error("No WAV clips to concatenate");
+  if (clips.length === 1) return clips[0];
+
+  const decoded = clips.map(decodeWav);
+  const [first] = decoded;
+
+  for (const clip of decoded) {
+    if (
+      clip.sampleRate !== first.sampleRate ||
+      clip.channels !== first.channels ||
+      clip.bitsPerSample !== first.bitsPerSample
+    ) {
+      throw new Error(
+        `WAV format mismatch: ${clip.sampleRate}Hz/${clip.channels}ch/${clip.bitsPerSample}bit vs ${first.sampleRate}Hz/${first.channels}ch/${first.bitsPerSample}bit`
+      );
+    }
+  }
+
+  const gap = silence(first, silenceMs);
+  const totalLength =
+    decoded.reduce((sum, clip) => sum + clip.samples.byteLength, 0) +
+    gap.byteLength * (decoded.length - 1);
+
+  const samples = new Uint8Array(totalLength);
+  let offset = 0;
+  decoded.forEach((clip, i) => {
+    if (i > 0) {
+      samples.set(gap, offset);
+      offset += gap.byteLength;
+    }
+    samples.set(clip.samples, offset);
+    offset += clip.samples.byteLength;
+  });
+
+  return encodeWav(first, samples);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return new Uint8Array(Buffer.from(base64, "base64"));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("base64");
+}
@@ -0,0 +1,27 @@
+// --- Waveform peaks, shared by the player and the clip preview image ---
+// Kept free of server-only imports so the player can use it in the browser.
+
+/** Bars are drawn at most this fraction of the available height */
+export const PEAK_HEIGHT_RATIO = 0.8;
+
+export const PEAK_COLOR = "oklch(0.708 0 0 / 0.3)";
+export const PLAYED_PEAK_COLOR = "oklch(0.59 0.26 323)";
+
+/**
+ * Splits `samples` (floats in -1..1) into `barCount` equal slices and
+ * returns the loudest absolute sample in each, from 0 to 1.
+ */
+export function computePeaks(samples: ArrayLike<number>, barCount: number): number[] {
+  const peaks: number[] = [];
+  for (let i = 0; i < barCount; i++) {
+    const start = Math.floor((i / barCount) * samples.length);
+    const end = Math.floor(((i + 1) / barCount) * samples.length);
+    let max = 0;
+    for (let j = start; j < end; j++) {
+      const abs = Math.abs(samples[j]);
+      if (abs > max) max = abs;
+    }
+    peaks.push(max);
+  }
+  return peaks;
+}
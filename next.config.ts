@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loads its .wasm from its own folder at runtime, so it can't be bundled
+  serverExternalPackages: ["opusscript"],
 };
 
 export default nextConfig;